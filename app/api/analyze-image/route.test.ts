@@ -0,0 +1,42 @@
+import sharp from "sharp"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { POST } from "@/app/api/analyze-image/route"
+
+// A small gray JPEG, the mock provider answers the same whatever the picture
+async function jpeg() {
+  const image = await sharp({ create: { width: 32, height: 32, channels: 3, background: "#808080" } })
+    .jpeg()
+    .toBuffer()
+  return new Blob([new Uint8Array(image)], { type: "image/jpeg" })
+}
+
+async function post(fields: Record<string, string>) {
+  const body = new FormData()
+  body.set("image", await jpeg(), "frame.jpg")
+  for (const [name, value] of Object.entries(fields)) body.set(name, value)
+  return POST(new Request("http://localhost/api/analyze-image", { method: "POST", body }))
+}
+
+beforeEach(() => {
+  vi.stubEnv("AI_PROVIDER", "mock")
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("POST /api/analyze-image", () => {
+  it("answers color mode from the mock fixture with the colors measured on the device", async () => {
+    const response = await post({ mode: "color", measuredColors: JSON.stringify(["#1f2a44", "#f0f0f0"]) })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({
+      color: { item: "shirt", colors: ["navy blue", "white"], pattern: "striped" },
+    })
+  })
+
+  it("answers color mode without measured colors", async () => {
+    const response = await post({ mode: "color" })
+    expect(response.status).toBe(200)
+  })
+})
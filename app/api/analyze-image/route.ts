@@ -1,42 +1,80 @@
 import { NextResponse } from "next/server"
-import { analyzeImage } from "@/lib/gemini-service"
+import {
+  analyzeImage,
+  detectCurrency,
+  detectHazards,
+  identifyColors,
+  locateObject,
+  readMedicationLabel,
+} from "@/lib/gemini-service"
+import { aiErrorResponse, checkRouteReady, errorResponse } from "@/lib/api-errors"
+import { describeColorReport } from "@/lib/color"
+import { describeCurrency } from "@/lib/currency"
+import { normalizeImage } from "@/lib/image-input"
+import { describeMedicationLabel } from "@/lib/medication"
+import { describeLocation } from "@/lib/object-search"
+import { readImageUpload } from "@/lib/image-upload"
+import { imageUploadFieldsSchema, type AnalyzeImageResponse } from "@/lib/schemas"
 
 // Add export const runtime = 'edge' to ensure this runs in a Node.js environment
 export const runtime = "nodejs"
 
 export async function POST(request: Request) {
   try {
-    // Check if API key is available
-    if (!process.env.GOOGLE_API_KEY) {
-      console.error("GOOGLE_API_KEY is not defined")
-      return NextResponse.json({ error: "API key is not configured" }, { status: 500 })
+    // Check the provider is configured and the client is within its rate limit (see lib/api-errors)
+    const notReady = await checkRouteReady(request, "analyze-image")
+    if (notReady) return notReady
+
+    // Read the image from a multipart, raw binary or JSON body, answering 400 with field-level errors
+    const { data, response: invalidResponse } = await readImageUpload(request, imageUploadFieldsSchema)
+    if (invalidResponse) return invalidResponse
+
+    // Detect the real format, then resize and re-encode before it reaches the provider
+    const image = await normalizeImage(data.bytes)
+
+    // Hazard mode answers with a validated structured report (see lib/schemas)
+    if (data.mode === "hazard") {
+      const { hazards, summary } = await detectHazards(image)
+      return NextResponse.json<AnalyzeImageResponse>({ analysis: summary, hazards })
     }
 
-    // Parse the request body
-    const body = await request.json()
+    // Currency mode answers with the notes and a fixed phrase that never states an uncertain value
+    if (data.mode === "currency") {
+      const { notes } = await detectCurrency(image)
+      return NextResponse.json<AnalyzeImageResponse>({ analysis: describeCurrency(notes), notes })
+    }
 
-    // Extract only the data we need
-    const imageData = body.image
-    const promptText = body.prompt
+    // Color mode names the item in the center and its colors, helped by the colors measured on the device
+    if (data.mode === "color") {
+      const color = await identifyColors(image, data.measuredColors)
+      return NextResponse.json<AnalyzeImageResponse>({ analysis: describeColorReport(color), color })
+    }
+
+    // Medication mode reads the label field by field, and says so when it cannot read it with certainty
+    if (data.mode === "medication") {
+      const medication = await readMedicationLabel(image)
+      return NextResponse.json<AnalyzeImageResponse>({ analysis: describeMedicationLabel(medication), medication })
+    }
 
-    if (!imageData) {
-      return NextResponse.json({ error: "Invalid request. Image data is required." }, { status: 400 })
+    // Search mode looks for one object, sent with every frame, and says where it is
+    if (data.mode === "search") {
+      if (!data.target) {
+        return errorResponse("invalid_input", "Invalid request", "Search mode needs a target", undefined, {
+          target: ["Search mode needs a target"],
+        })
+      }
+      const location = await locateObject(image, data.target)
+      return NextResponse.json<AnalyzeImageResponse>({ analysis: describeLocation(data.target, location), location })
     }
 
-    // Analyze the image using Gemini
-    const analysis = await analyzeImage(imageData, promptText)
+    // Analyze the image using the configured AI provider
+    const analysis = await analyzeImage(image, data.prompt)
 
-    return NextResponse.json({ analysis })
+    return NextResponse.json<AnalyzeImageResponse>({ analysis })
   } catch (error) {
     console.error("Error in image analysis API:", error)
 
-    // Return more detailed error information
-    return NextResponse.json(
-      {
-        error: "Failed to analyze image",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    )
+    // Return the error code so the client can tell the user what went wrong
+    return aiErrorResponse(error, "Failed to analyze image")
   }
 }
@@ -1,39 +1,44 @@
 import { NextResponse } from "next/server"
-import { chatWithGemini } from "@/lib/gemini-service"
+import { chatWithGemini, streamChatWithGemini } from "@/lib/gemini-service"
+import { CHAT_STREAM_CONTENT_TYPE, encodeChatStream } from "@/lib/chat-stream"
+import { aiErrorResponse, checkRouteReady, parseRequestBody } from "@/lib/api-errors"
+import { chatRequestSchema, type ChatResponse } from "@/lib/schemas"
 
 // Add export const runtime = 'edge' to ensure this runs in a Node.js environment
 export const runtime = "nodejs"
 
 export async function POST(request: Request) {
   try {
-    // Check if API key is available
-    if (!process.env.GOOGLE_API_KEY) {
-      console.error("GOOGLE_API_KEY is not defined")
-      return NextResponse.json({ error: "API key is not configured" }, { status: 500 })
-    }
+    // Check the provider is configured and the client is within its rate limit (see lib/api-errors)
+    const notReady = await checkRouteReady(request, "chat")
+    if (notReady) return notReady
 
-    const { messages } = await request.json()
+    // Validate the request against the shared schema, answering 400 with field-level errors
+    const { data, response: invalidResponse } = await parseRequestBody(request, chatRequestSchema)
+    if (invalidResponse) return invalidResponse
 
-    if (!messages || !Array.isArray(messages)) {
-      return NextResponse.json({ error: "Invalid request. Messages array is required." }, { status: 400 })
-    }
+    const { messages, stream } = data
 
     // Format system prompt for visually impaired assistance
     const systemPrompt =
       "You are Vission Assist AI, a helpful assistant designed specifically for visually impaired users. Provide clear, concise, and descriptive responses. Focus on being helpful and providing information that would be most useful for someone who cannot see. If describing directions or locations, be very specific."
 
-    // Get response from Gemini, passing the system prompt separately
+    // Stream the reply as NDJSON when the client asks for it (see lib/chat-stream)
+    if (stream) {
+      return new Response(encodeChatStream(streamChatWithGemini(messages, systemPrompt)), {
+        headers: {
+          "Content-Type": CHAT_STREAM_CONTENT_TYPE,
+          "Cache-Control": "no-cache",
+        },
+      })
+    }
+
+    // Get response from the AI provider, passing the system prompt separately
     const response = await chatWithGemini(messages, systemPrompt)
 
-    return NextResponse.json({ response })
+    return NextResponse.json<ChatResponse>({ response })
   } catch (error) {
     console.error("Error in chat API:", error)
-    return NextResponse.json(
-      {
-        error: "Failed to process chat request",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    )
+    return aiErrorResponse(error, "Failed to process chat request")
   }
 }
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { chatAboutImage } from "@/lib/gemini-service"
+import { aiErrorResponse, checkRouteReady } from "@/lib/api-errors"
+import { normalizeImage } from "@/lib/image-input"
+import { readImageUpload } from "@/lib/image-upload"
+import { imageChatFieldsSchema, type ChatResponse } from "@/lib/schemas"
+
+// sharp resizes the upload, which the edge runtime cannot load
+export const runtime = "nodejs"
+
+// Follow-up questions about the last analyzed picture. The client sends the picture again with the
+// whole conversation each time, so the server keeps no state between questions.
+export async function POST(request: Request) {
+  try {
+    // Check the provider is configured and the client is within its rate limit (see lib/api-errors)
+    const notReady = await checkRouteReady(request, "image-chat")
+    if (notReady) return notReady
+
+    // Read the image and conversation, answering 400 with field-level errors
+    const { data, response: invalidResponse } = await readImageUpload(request, imageChatFieldsSchema)
+    if (invalidResponse) return invalidResponse
+
+    // Detect the real format, then resize and re-encode before it reaches the provider
+    const image = await normalizeImage(data.bytes)
+
+    const response = await chatAboutImage(image, data.messages)
+
+    return NextResponse.json<ChatResponse>({ response })
+  } catch (error) {
+    console.error("Error in image chat API:", error)
+    return aiErrorResponse(error, "Failed to answer the question about the image")
+  }
+}
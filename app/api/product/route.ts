@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { aiErrorResponse, checkRouteReady, parseWithSchema } from "@/lib/api-errors"
+import { getCatalog, getCatalogConfigError } from "@/lib/catalog"
+import { normalizeProductCode } from "@/lib/barcode"
+import { productLookupRequestSchema, type ProductLookupResponse } from "@/lib/schemas"
+
+// The local catalog reads its product file with node:fs
+export const runtime = "nodejs"
+
+// Product mode: looks up a barcode decoded on the device, GET /api/product?code=5000112637922.
+// Only the number leaves the device, never the picture.
+export async function GET(request: Request) {
+  try {
+    // Check the product catalog is configured and the client is within its rate limit (see lib/api-errors)
+    const notReady = await checkRouteReady(request, "product", {
+      configError: getCatalogConfigError(),
+      backend: "Product catalog",
+    })
+    if (notReady) return notReady
+
+    const { searchParams } = new URL(request.url)
+    const { data, response: invalidResponse } = parseWithSchema(
+      Object.fromEntries(searchParams),
+      productLookupRequestSchema,
+    )
+    if (invalidResponse) return invalidResponse
+
+    const product = await getCatalog().lookup(normalizeProductCode(data.code), { signal: request.signal })
+
+    return NextResponse.json<ProductLookupResponse>({ product })
+  } catch (error) {
+    console.error("Error in product lookup API:", error)
+    return aiErrorResponse(error, "Failed to look up the product")
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { readDocumentPage } from "@/lib/gemini-service"
+import { aiErrorResponse, checkRouteReady } from "@/lib/api-errors"
+import { normalizeImage } from "@/lib/image-input"
+import { readImageUpload } from "@/lib/image-upload"
+import { documentFieldsSchema, type DocumentPage } from "@/lib/schemas"
+
+// sharp resizes the page photo, which the edge runtime cannot load
+export const runtime = "nodejs"
+
+// Document mode: transcribes one page word for word, as blocks in reading order (see lib/schemas).
+// Multi-page documents are put together by the client one page at a time.
+export async function POST(request: Request) {
+  try {
+    // Check the provider is configured and the client is within its rate limit (see lib/api-errors)
+    const notReady = await checkRouteReady(request, "read-document")
+    if (notReady) return notReady
+
+    // Read the image from a multipart, raw binary or JSON body, answering 400 with field-level errors
+    const { data, response: invalidResponse } = await readImageUpload(request, documentFieldsSchema)
+    if (invalidResponse) return invalidResponse
+
+    // Detect the real format, then resize and re-encode before it reaches the provider
+    const image = await normalizeImage(data.bytes)
+
+    const page = await readDocumentPage(image)
+
+    return NextResponse.json<DocumentPage>(page)
+  } catch (error) {
+    console.error("Error in document reading API:", error)
+    return aiErrorResponse(error, "Failed to read the document")
+  }
+}
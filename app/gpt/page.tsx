@@ -7,12 +7,18 @@ import { Button } from "@/components/ui/button"
 import { useToast } from "@/components/ui/use-toast"
 import { useSpeechRecognition } from "@/hooks/use-speech-recognition"
 import { useSpeechSynthesis } from "@/hooks/use-speech-synthesis"
+import { stillWorkingMessage, useCallBudget } from "@/hooks/use-call-budget"
 import { useAccessibility } from "@/components/accessibility-provider"
 import { useRouter } from "next/navigation"
 import ChatBubble from "@/components/chat-bubble"
 import EmergencyButton from "@/components/emergency-button"
 import Logo from "@/components/logo"
 import GlowEffect from "@/components/glow-effect"
+import { readChatStream } from "@/lib/chat-stream"
+import { assertNotRateLimited, getClientSessionId, noteRateLimit, SESSION_HEADER } from "@/lib/client-session"
+import { AIServiceError, describeError, errorFromResponse } from "@/lib/errors"
+import { chatRequestSchema, fitHistoryMessage, MAX_CHAT_MESSAGES, type ChatRequest } from "@/lib/schemas"
+import { takeCompleteSentences } from "@/lib/sentences"
 
 interface Message {
   role: "user" | "assistant"
@@ -28,9 +34,11 @@ export default function GPTPage() {
   ])
   const { fontSize, highContrast, voiceFeedback } = useAccessibility()
   const { transcript, isListening, startListening, stopListening, resetTranscript } = useSpeechRecognition()
-  const { speak, isSpeaking, stopSpeaking } = useSpeechSynthesis()
+  const { enqueue, isSpeaking, stopSpeaking } = useSpeechSynthesis()
   const chatContainerRef = useRef<HTMLDivElement>(null)
   const [transcriptReady, setTranscriptReady] = useState(false)
+  const [isStreaming, setIsStreaming] = useState(false)
+  const { start: startBudget, stop: stopBudget, remainingSeconds } = useCallBudget()
 
   useEffect(() => {
     // Scroll to bottom when messages change
@@ -76,49 +84,118 @@ export default function GPTPage() {
   }
 
   const handleUserMessage = async (message: string) => {
-    // Add user message to chat
-    setMessages((prev) => [...prev, { role: "user", content: message }])
+    // Add user message to chat, followed by an empty assistant bubble that grows as the reply streams in
+    setMessages((prev) => [...prev, { role: "user", content: message }, { role: "assistant", content: "" }])
     setIsProcessing(true)
+    setIsStreaming(true)
+
+    // Replace the content of the streaming assistant bubble
+    const updateReply = (content: string) => {
+      setMessages((prev) => [...prev.slice(0, -1), { role: "assistant", content }])
+    }
+
+    let aiResponse = ""
+    let unspokenText = ""
+
+    // Until the first words arrive, periodically tell the user we are still working
+    const signal = startBudget((seconds) => {
+      if (voiceFeedback) {
+        enqueue(stillWorkingMessage(seconds))
+      }
+    })
 
     try {
-      // Call Gemini API
+      // Send only the most recent history, checked against the same schema the server enforces
+      const request: ChatRequest = {
+        messages: [...messages.map(fitHistoryMessage), { role: "user" as const, content: message }].slice(
+          -MAX_CHAT_MESSAGES,
+        ),
+        stream: true,
+      }
+      const parsed = chatRequestSchema.safeParse(request)
+      if (!parsed.success) {
+        throw new AIServiceError("invalid_input", parsed.error.issues[0].message)
+      }
+
+      // Still waiting out an earlier 429, say how long instead of sending
+      assertNotRateLimited("chat")
+
+      // Call the chat API, asking for a streamed reply
       const response = await fetch("/api/chat", {
+        signal,
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          [SESSION_HEADER]: getClientSessionId(),
         },
-        body: JSON.stringify({
-          messages: [...messages, { role: "user", content: message }],
-        }),
+        body: JSON.stringify(parsed.data),
       })
 
       if (!response.ok) {
-        throw new Error("Failed to get response from API")
+        const error = await errorFromResponse(response)
+        noteRateLimit("chat", error)
+        throw error
+      }
+
+      if (voiceFeedback) {
+        stopSpeaking()
       }
 
-      const data = await response.json()
-      const aiResponse = data.response
+      for await (const event of readChatStream(response)) {
+        if (event.type === "error") {
+          throw new AIServiceError(event.code, event.message)
+        }
+
+        // The server is retrying a failed call, keep the user informed
+        if (event.type === "retry") {
+          if (voiceFeedback) {
+            enqueue("The assistant is busy, trying again.")
+          }
+          continue
+        }
+
+        if (event.type !== "delta") continue
 
-      // Add AI response to chat
-      setMessages((prev) => [...prev, { role: "assistant", content: aiResponse }])
+        // The reply has started, so the budget no longer applies
+        if (!aiResponse) {
+          stopBudget()
+        }
+
+        aiResponse += event.text
+        updateReply(aiResponse)
+
+        // Start speaking completed sentences while the rest is still generating
+        if (voiceFeedback) {
+          const { sentences, rest } = takeCompleteSentences(unspokenText + event.text)
+          unspokenText = rest
+          sentences.forEach(enqueue)
+        }
+      }
 
-      // Speak the response if voice feedback is enabled
+      // Speak whatever is left after the last full sentence
       if (voiceFeedback) {
-        speak(aiResponse)
+        enqueue(unspokenText)
       }
     } catch (error) {
       console.error("Error:", error)
 
-      // Add error message to chat
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: "assistant",
-          content: "I'm sorry, I couldn't process your request at the moment. Please try again.",
-        },
-      ])
+      // Tell the user what went wrong and what to do about it
+      const errorMessage = describeError("chat", error)
+
+      // Keep any partial reply and add the error message after it
+      if (aiResponse) {
+        setMessages((prev) => [...prev, { role: "assistant", content: errorMessage }])
+      } else {
+        updateReply(errorMessage)
+      }
+
+      if (voiceFeedback) {
+        enqueue(errorMessage)
+      }
     } finally {
+      stopBudget()
       setIsProcessing(false)
+      setIsStreaming(false)
     }
   }
 
@@ -182,7 +259,12 @@ export default function GPTPage() {
                 exit={{ opacity: 0 }}
                 transition={{ duration: 0.3 }}
               >
-                <ChatBubble message={message} fontSize={fontSize} highContrast={highContrast} />
+                <ChatBubble
+                  message={message}
+                  fontSize={fontSize}
+                  highContrast={highContrast}
+                  isStreaming={isStreaming && index === messages.length - 1}
+                />
               </motion.div>
             ))}
           </AnimatePresence>
@@ -221,7 +303,9 @@ export default function GPTPage() {
             transition={isListening ? { repeat: Number.POSITIVE_INFINITY, duration: 2 } : {}}
           >
             {isProcessing
-              ? "Processing..."
+              ? remainingSeconds !== null
+                ? `Still working... up to ${remainingSeconds} seconds left`
+                : "Processing..."
               : isListening
                 ? "Listening..."
                 : isSpeaking
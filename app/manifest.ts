@@ -0,0 +1,24 @@
+import type { MetadataRoute } from "next"
+
+// Installing the app registers it as a share target, so photos shared from other apps open in the
+// Video Analyzer. The POST to /scan/share is handled by the service worker in public/share-target-sw.js.
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Vission Assist AI",
+    short_name: "Vission",
+    description: "AI-powered assistant for visually impaired users",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#121629",
+    theme_color: "#121629",
+    icons: [{ src: "/placeholder-logo.png", sizes: "any", type: "image/png" }],
+    share_target: {
+      action: "/scan/share",
+      method: "POST",
+      enctype: "multipart/form-data",
+      params: {
+        files: [{ name: "image", accept: ["image/*"] }],
+      },
+    },
+  }
+}
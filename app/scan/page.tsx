@@ -1,26 +1,142 @@
 "use client"
 
+import type React from "react"
 import { useState, useEffect, useRef } from "react"
 import { motion } from "framer-motion"
-import { Camera, Mic, MicOff, ArrowLeft, Volume2 } from "lucide-react"
+import {
+  Camera,
+  Mic,
+  MicOff,
+  ArrowLeft,
+  Volume2,
+  WifiOff,
+  ScanEye,
+  TriangleAlert,
+  ImageUp,
+  SwitchCamera,
+  Flashlight,
+  FlashlightOff,
+  ZoomIn,
+  ZoomOut,
+  Crosshair,
+  FileText,
+  Banknote,
+  Palette,
+  ScanBarcode,
+  ExternalLink,
+  Pill,
+  Search,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { useToast } from "@/components/ui/use-toast"
 import { useSpeechRecognition } from "@/hooks/use-speech-recognition"
 import { useSpeechSynthesis } from "@/hooks/use-speech-synthesis"
+import { stillWorkingMessage, useCallBudget } from "@/hooks/use-call-budget"
+import { useContinuousScan } from "@/hooks/use-continuous-scan"
+import { useCameraControls } from "@/hooks/use-camera-controls"
+import { useGuidedCapture } from "@/hooks/use-guided-capture"
+import { useDocumentReader } from "@/hooks/use-document-reader"
+import { useColorMatching } from "@/hooks/use-color-matching"
+import { useProductScan } from "@/hooks/use-product-scan"
+import { MEDICATION_PROMPT, useMedications } from "@/hooks/use-medications"
+import { useObjectSearch } from "@/hooks/use-object-search"
+import { useKnownPeople } from "@/hooks/use-known-people"
 import { useAccessibility } from "@/components/accessibility-provider"
 import { useRouter } from "next/navigation"
 import EmergencyButton from "@/components/emergency-button"
 import Logo from "@/components/logo"
 import GlowEffect from "@/components/glow-effect"
+import ScanHistory from "@/components/scan-history"
+import DocumentView from "@/components/document-view"
+import MedicationList from "@/components/medication-list"
+import KnownPeople from "@/components/known-people"
+import { AIServiceError, describeError } from "@/lib/errors"
+import {
+  CONTINUOUS_SCAN_PROMPT,
+  DEFAULT_SCAN_PROMPT,
+  isOfflineError,
+  requestColorReport,
+  requestCurrencyReport,
+  requestHazardReport,
+  requestImageAnalysis,
+  requestImageChat,
+} from "@/lib/analyze-client"
+import { CLIENT_BUDGET_MS } from "@/lib/call-policy"
+import { formatAmount, isConfidentNote } from "@/lib/currency"
+import { RESOLUTION_PRESETS, type CameraControlResult, type ResolutionPreset } from "@/lib/camera-controls"
+import {
+  findNewSentences,
+  MAX_SCAN_FAILURES,
+  MAX_SCAN_INTERVAL_SECONDS,
+  MIN_SCAN_INTERVAL_SECONDS,
+  type ScanTickResult,
+} from "@/lib/continuous-scan"
+import { computeFrameSignature, hasSceneChanged, type FrameSignature } from "@/lib/frame-diff"
+import { hazardVibration, hazardWarning, sortHazards } from "@/lib/hazards"
+import { checkImageLocally, describeLocalChecks } from "@/lib/image-checks"
+import { getKnownPeopleStore } from "@/lib/known-people"
+import {
+  countPendingFrames,
+  describeAge,
+  getPendingFrames,
+  queueFrame,
+  removePendingFrame,
+  type PendingFrame,
+} from "@/lib/offline-queue"
+import { deleteSnapshot, getSnapshots, saveSnapshot, updateSnapshot, type SavedSnapshot } from "@/lib/scan-history"
+import { registerShareTarget, takeSharedImage } from "@/lib/shared-image"
+import {
+  fitHistoryMessage,
+  MAX_CHAT_MESSAGES,
+  type AnalysisMode,
+  type ChatMessage,
+  type CurrencyNote,
+  type Hazard,
+  type HazardReport,
+} from "@/lib/schemas"
+import { incrementCounter } from "@/lib/telemetry"
 
-// Mock responses for offline mode or when API fails
-const MOCK_RESPONSES = [
-  "I can see what appears to be an indoor space. There are no obvious obstacles in the immediate vicinity.",
-  "This looks like an outdoor area. The path ahead seems clear, but proceed with caution.",
-  "I can see what might be furniture or objects in the frame. Please be careful when moving forward.",
-  "The image shows what appears to be a room with some furniture. There are no immediate hazards visible.",
-  "I can see what looks like a pathway. It appears to be clear of obstacles.",
-]
+// Product mode reads codes on the device, the other modes are analyzed by the model.
+// Search mode is not one of them, it runs its own loop until the object is found (see useObjectSearch).
+type ScanMode = Exclude<AnalysisMode, "search"> | "product"
+
+// Spoken when a mode is turned on, and for describe mode when another mode is turned off
+const MODE_MESSAGES: Record<ScanMode, string> = {
+  describe: "I will describe the scene.",
+  hazard: "Hazard mode on. I will warn you about obstacles first.",
+  currency: "Currency mode on. Hold the banknotes flat in front of the camera and take a picture.",
+  color:
+    "Color mode on. Hold the item in the middle of the picture. Say does this match to compare it with the next one.",
+  product: "Product mode on. Hold the barcode or QR code flat and level, about a hand away from the camera.",
+  medication:
+    "Medication mode on. Hold the label about a hand away from the camera, and turn the bottle slowly if I can't read it.",
+}
+
+const MODE_TITLES: Record<ScanMode, string> = {
+  describe: "Describe mode",
+  hazard: "Hazard mode",
+  currency: "Currency mode",
+  color: "Color mode",
+  product: "Product mode",
+  medication: "Medication mode",
+}
+
+// Opens the conversation about a picture taken in currency mode, for follow-up questions
+const CURRENCY_PROMPT = "Which banknotes are these?"
+
+// Photos from the gallery are scaled down to this before upload, like the server does before the model
+const MAX_PHOTO_DIMENSION = 1568
+
+// The last analyzed picture, kept so spoken follow-up questions can be asked about it
+interface PictureConversation {
+  image: Blob
+  // Starts with the prompt and description of the picture, then the follow-up questions and answers
+  messages: ChatMessage[]
+}
+
+// How many spoken sentences continuous mode remembers when looking for new information
+const RECENT_SENTENCE_COUNT = 12
 
 export default function ScanPage() {
   const router = useRouter()
@@ -29,12 +145,211 @@ export default function ScanPage() {
   const [cameraActive, setCameraActive] = useState(false)
   const [analysisResult, setAnalysisResult] = useState<string>("")
   const [userQuestion, setUserQuestion] = useState<string>("")
-  const { fontSize, highContrast, voiceFeedback } = useAccessibility()
+  const { fontSize, highContrast, voiceFeedback, hapticFeedback, scanInterval, setScanInterval, changeThreshold } =
+    useAccessibility()
   const { transcript, isListening, startListening, stopListening, resetTranscript } = useSpeechRecognition()
-  const { speak, isSpeaking, stopSpeaking } = useSpeechSynthesis()
+  const { speak, enqueue, isSpeaking, stopSpeaking } = useSpeechSynthesis()
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const camera = useCameraControls(videoRef)
+  // True while a file is dragged over the page
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
   const [transcriptReady, setTranscriptReady] = useState(false)
+  const { start: startBudget, stop: stopBudget, remainingSeconds } = useCallBudget()
+  const [isOffline, setIsOffline] = useState(false)
+  const [pendingFrameCount, setPendingFrameCount] = useState(0)
+  // True when the shown result comes from the on-device checks rather than the AI service
+  const [isLocalResult, setIsLocalResult] = useState(false)
+  const drainingQueueRef = useRef(false)
+  // Hazard, currency and color mode ask for a structured report instead of a description
+  const [analysisMode, setAnalysisMode] = useState<ScanMode>("describe")
+  const hazardMode = analysisMode === "hazard"
+  const currencyMode = analysisMode === "currency"
+  const colorMode = analysisMode === "color"
+  const productMode = analysisMode === "product"
+  const medicationMode = analysisMode === "medication"
+  const [hazards, setHazards] = useState<Hazard[]>([])
+  const [currencyNotes, setCurrencyNotes] = useState<CurrencyNote[]>([])
+  // Sentences recently spoken in continuous mode, so repeated information is not spoken again
+  const spokenSentencesRef = useRef<string[]>([])
+  const scanFailuresRef = useRef(0)
+  // Downscaled luminance of the last frame continuous mode analyzed
+  const lastSignatureRef = useRef<FrameSignature | null>(null)
+  // Follow-up questions about the last analyzed picture
+  const pictureConversationRef = useRef<PictureConversation | null>(null)
+  const [hasPictureConversation, setHasPictureConversation] = useState(false)
+  // Saved results, newest first. The selected one is where voice navigation stands.
+  const [snapshots, setSnapshots] = useState<SavedSnapshot[]>([])
+  const [selectedSnapshotId, setSelectedSnapshotId] = useState<number | null>(null)
+
+  // Shows a result that is not a hazard or currency report, `local` when it did not come from the AI service
+  const showResult = (message: string, local = false) => {
+    setAnalysisResult(message)
+    setHazards([])
+    setCurrencyNotes([])
+    setIsLocalResult(local)
+  }
+
+  // Marks the page busy and starts the time budget of one request, returning the signal that aborts it
+  const beginRequest = () => {
+    setIsProcessing(true)
+    return startBudget((seconds) => {
+      if (voiceFeedback) {
+        speak(stillWorkingMessage(seconds))
+      }
+    })
+  }
+
+  const endRequest = () => {
+    stopBudget()
+    setIsProcessing(false)
+  }
+
+  // Starts a new conversation about a picture that was just described
+  const rememberPicture = (image: Blob, prompt: string, description: string) => {
+    pictureConversationRef.current = {
+      image,
+      messages: [
+        { role: "user", content: prompt },
+        { role: "assistant", content: description },
+      ],
+    }
+    setHasPictureConversation(true)
+  }
+
+  const forgetPicture = () => {
+    pictureConversationRef.current = null
+    setHasPictureConversation(false)
+  }
+
+  // Adds an analyzed picture to the history. Failing to save never affects the result itself.
+  const recordSnapshot = async (image: Blob, prompt: string, description: string, capturedAt = Date.now()) => {
+    try {
+      const saved = await saveSnapshot({ image, prompt, description, capturedAt })
+      setSnapshots(await getSnapshots())
+      setSelectedSnapshotId(saved.id)
+    } catch (error) {
+      console.error("Error saving scan history:", error)
+    }
+  }
+
+  // Keeps a frame to analyze once the connection returns. Returns whether it was saved.
+  const queueOfflineFrame = async (frame: Omit<PendingFrame, "capturedAt">) => {
+    setIsOffline(true)
+
+    try {
+      await queueFrame({ ...frame, capturedAt: Date.now() })
+      setPendingFrameCount(await countPendingFrames())
+      return true
+    } catch (error) {
+      console.error("Error queueing frame:", error)
+      return false
+    }
+  }
+
+  // Guided framing: spoken hints from on-device checks of the live camera, then an automatic capture
+  const guidance = useGuidedCapture({
+    videoRef,
+    canSuggestTorch: camera.capabilities.torch && !camera.torchOn,
+    speak,
+    prepare: async () => {
+      if (!cameraActive) {
+        await startCamera()
+      }
+      if (isScanning) {
+        stopContinuousScan()
+      }
+    },
+    onReady: (target) => {
+      forgetPicture()
+      if (target === "page") {
+        captureDocumentPage()
+      } else {
+        captureImage()
+      }
+    },
+  })
+
+  // Document mode: pages read word for word, navigated block by block
+  const documentReader = useDocumentReader({
+    speak,
+    enqueue,
+    stopSpeaking,
+    startGuidance: () => guidance.start("page"),
+    beginRequest,
+    endRequest,
+    showResult,
+    rememberPicture,
+    recordSnapshot,
+  })
+
+  // Color mode: names the colors of the item in view, and compares outfits
+  const colors = useColorMatching({
+    canvasRef,
+    speak,
+    showResult,
+    rememberPicture,
+    recordSnapshot,
+    queueOfflineFrame,
+    captureItem: () => captureImage(undefined, "color"),
+    enableColorMode: () => {
+      if (!colorMode) toggleMode("color", true)
+    },
+  })
+
+  // Product mode: barcodes and QR codes read on the device, products looked up by number
+  const productScan = useProductScan({
+    canvasRef,
+    speak,
+    showResult,
+    rememberPicture,
+    recordSnapshot,
+  })
+
+  // Medication mode: labels checked against the user's own list
+  const medicationList = useMedications({
+    speak,
+    showResult,
+    rememberPicture,
+    recordSnapshot,
+  })
+
+  const {
+    isRunning: isScanning,
+    start: startContinuousScan,
+    stop: stopContinuousScan,
+  } = useContinuousScan(scanInterval * 1000, () => scanFrame())
+
+  // Search mode: guidance towards a named object, frame after frame
+  const search = useObjectSearch({
+    captureFrame: () => captureFrame(),
+    isBusy: isProcessing,
+    mirrored: camera.facingMode === "user",
+    speak,
+    showResult,
+    onOffline: () => setIsOffline(true),
+    hasPictureConversation: () => pictureConversationRef.current !== null,
+    prepare: async () => {
+      if (!cameraActive) {
+        await startCamera()
+      }
+      guidance.stop()
+      if (isScanning) stopContinuousScan()
+    },
+  })
+
+  // People recognition, matched on the device against the faces enrolled with consent
+  const people = useKnownPeople({
+    canvasRef,
+    cameraActive,
+    captureFrame: () => captureFrame(),
+    speak,
+    prepare: () => {
+      guidance.stop()
+      if (isScanning) stopContinuousScan()
+    },
+  })
 
   // Process transcript when speech recognition stops
   useEffect(() => {
@@ -44,6 +359,66 @@ export default function ScanPage() {
     }
   }, [isListening, transcript, transcriptReady])
 
+  useEffect(() => {
+    getSnapshots()
+      .then(setSnapshots)
+      .catch((error) => console.error("Error loading scan history:", error))
+  }, [])
+
+  // Photos shared from other apps arrive through the service worker, pasted ones through the clipboard
+  useEffect(() => {
+    registerShareTarget()
+
+    const shared = new URLSearchParams(window.location.search).get("shared")
+    if (shared) {
+      router.replace("/scan")
+      if (shared === "failed") {
+        announcePhotoProblem("The shared photo did not arrive. Please try sharing it again.")
+      } else {
+        takeSharedImage()
+          .then((image) => {
+            if (image) analyzePhotoRef.current(image)
+          })
+          .catch((error) => console.error("Error reading shared image:", error))
+      }
+    }
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = [...(event.clipboardData?.files ?? [])].find((item) => item.type.startsWith("image/"))
+      if (!file) return
+      event.preventDefault()
+      analyzePhotoRef.current(file)
+    }
+
+    window.addEventListener("paste", handlePaste)
+    return () => window.removeEventListener("paste", handlePaste)
+  }, [])
+
+  // Track connectivity, and analyze frames queued while offline once the connection returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOffline(false)
+      analyzePendingFramesRef.current()
+    }
+    const handleOffline = () => setIsOffline(true)
+
+    setIsOffline(!navigator.onLine)
+    countPendingFrames()
+      .then((count) => {
+        setPendingFrameCount(count)
+        if (count > 0 && navigator.onLine) analyzePendingFramesRef.current()
+      })
+      .catch((error) => console.error("Error reading pending frames:", error))
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [])
+
   const processTranscript = (text: string) => {
     if (!text.trim()) return
 
@@ -59,6 +434,73 @@ export default function ScanPage() {
       return
     }
 
+    // Guided framing: "guide me", "frame the page" and "stop guiding"
+    if (command.includes("stop guid") || (guidance.isGuiding && command.includes("cancel"))) {
+      guidance.stop(true)
+      return
+    }
+
+    // Document mode: navigation once a page is read, then "read document", "add page" and "new document"
+    if (documentReader.handleCommand(command)) {
+      return
+    }
+
+    if (
+      /\b(frame|find|guide me to) (the |a )?(page|document|paper|letter)\b/.test(command) ||
+      /\bread (the |this |a )?(document|page|letter|text)\b/.test(command) ||
+      command.includes("document mode")
+    ) {
+      documentReader.start(false)
+      return
+    }
+
+    if (command.includes("add page") || command.includes("add a page") || command.includes("another page")) {
+      documentReader.start(true)
+      return
+    }
+
+    if (command.includes("new document")) {
+      documentReader.start(false)
+      return
+    }
+
+    if (command.includes("guide me") || command.includes("help me frame")) {
+      guidance.start("scene")
+      return
+    }
+
+    // Camera controls: "switch camera", "front camera", "torch on", "zoom in", "high resolution" and similar
+    if (/\b(switch|flip|change) (the )?(camera|lens)\b/.test(command)) {
+      handleSwitchLens()
+      return
+    }
+
+    const lensMatch = command.match(/\b(front|selfie|back|rear) (camera|lens)\b/)
+    if (lensMatch) {
+      handleSwitchLens(lensMatch[1] === "front" || lensMatch[1] === "selfie" ? "user" : "environment")
+      return
+    }
+
+    // A plain "light" only counts as a command on its own, questions about the lights go to the image
+    const torchCommand =
+      /\b(torch|flashlight)\b/.test(command) ||
+      /^(turn (on|off) (the )?light|(the )?light (on|off))\b/.test(command.trim())
+    if (torchCommand && /\b(on|off)\b/.test(command)) {
+      handleTorch(!/\boff\b/.test(command))
+      return
+    }
+
+    if (command.includes("zoom in") || command.includes("zoom out")) {
+      handleZoom(command.includes("zoom in") ? 1 : -1)
+      return
+    }
+
+    const resolutionMatch = command.match(/\b(low|medium|high) (resolution|quality)\b/)
+    if (resolutionMatch) {
+      handleResolution(resolutionMatch[1] as ResolutionPreset)
+      return
+    }
+
     if (command.includes("start camera") || command.includes("open camera")) {
       startCamera()
       return
@@ -69,11 +511,158 @@ export default function ScanPage() {
       return
     }
 
-    if (command.includes("take picture") || command.includes("snap photo") || command.includes("analyze")) {
+    // "Hazard mode", "obstacle alerts off" and similar
+    if (/(hazard|obstacle) (mode|alerts?)/.test(command)) {
+      toggleMode("hazard", !(command.includes(" off") || command.includes("stop")))
+      return
+    }
+
+    // "Currency mode", "money mode off", and one-off questions like "which note is this"
+    if (/(currency|money|cash|banknote) mode/.test(command)) {
+      toggleMode("currency", !(command.includes(" off") || command.includes("stop")))
+      return
+    }
+
+    if (/\b(which|what) (note|bill|banknote)s?\b|\bhow much money\b/.test(command)) {
+      captureImage(undefined, "currency")
+      return
+    }
+
+    // "Color mode", "what color is this", and "does this match" to compare with the last item
+    if (/colou?r mode/.test(command)) {
+      toggleMode("color", !(command.includes(" off") || command.includes("stop")))
+      return
+    }
+
+    // With a picture open, "what color is the chair" is a question about that picture
+    if (/\bwhat colou?rs? (is|are)\b/.test(command)) {
+      if (pictureConversationRef.current) {
+        askFollowUp(text)
+      } else {
+        captureImage(undefined, "color")
+      }
+      return
+    }
+
+    if (/\b(does|do) (this|these|it|they) (match|go)\b|\bmatch (my |the )?outfit\b/.test(command)) {
+      colors.matchNext()
+      return
+    }
+
+    // "Product mode", "read the barcode", and "open link" after a QR code was read
+    if (/(product|barcode|qr code) mode/.test(command)) {
+      toggleMode("product", !(command.includes(" off") || command.includes("stop")))
+      return
+    }
+
+    if (/\bwhat product\b|\b(read|scan) (the |this )?(barcode|qr code)\b/.test(command)) {
+      captureImage(undefined, "product")
+      return
+    }
+
+    if (/\bopen (the |this )?link\b/.test(command)) {
+      productScan.openPendingLink()
+      return
+    }
+
+    // "Medication mode", "read this label", "save this medication for blood pressure" and "my medications"
+    if (/(medication|medicine|pill) mode/.test(command)) {
+      toggleMode("medication", !(command.includes(" off") || command.includes("stop")))
+      return
+    }
+
+    if (
+      /\b(what|which) (medicine|medication|pill)s? (is|are)\b/.test(command) ||
+      /\bread (the |this )?(medicine|medication|pill bottle|prescription|label)\b/.test(command)
+    ) {
+      captureImage(undefined, "medication")
+      return
+    }
+
+    if (medicationList.handleCommand(command)) {
+      return
+    }
+
+    // Known people: "remember this person as Anna", "I agree", "who is here", "known people" and "delete all people"
+    if (people.handleCommand(command)) {
+      return
+    }
+
+    // Search mode: "find my keys", "where is the door", and "stop searching" or "found it"
+    if (search.handleCommand(command)) {
+      return
+    }
+
+    // Continuous mode: "start scanning", "stop scanning" and "scan every 5 seconds"
+    const intervalMatch = command.match(/every (\d+) seconds?/)
+    if (intervalMatch) {
+      setContinuousInterval(Number(intervalMatch[1]))
+      return
+    }
+
+    if (command.includes("stop scanning") || command.includes("stop continuous")) {
+      handleStopContinuousScan()
+      return
+    }
+
+    if (
+      command.includes("start scanning") ||
+      command.includes("continuous mode") ||
+      command.includes("keep scanning")
+    ) {
+      handleStartContinuousScan()
+      return
+    }
+
+    // Checked before "analyze", which alone means taking a picture
+    if (/\b((choose|pick|open|upload) (a )?(photo|image|file)|analyze (a )?photo)\b/.test(command)) {
+      // Browsers may only open the picker after a tap, so say where the button is
+      if (voiceFeedback) {
+        speak("Opening your photos. If nothing opens, press the Analyze Photo button.")
+      }
+      fileInputRef.current?.click()
+      return
+    }
+
+    if (
+      command.includes("new picture") ||
+      command.includes("take picture") ||
+      command.includes("snap photo") ||
+      command.includes("analyze")
+    ) {
+      forgetPicture()
       captureImage()
       return
     }
 
+    // History: "previous result", "next result", "repeat last", "star this" and "delete this"
+    if (command.includes("previous result") || command.includes("older result")) {
+      stepHistory(1)
+      return
+    }
+
+    if (command.includes("next result") || command.includes("newer result")) {
+      stepHistory(-1)
+      return
+    }
+
+    if (command.includes("repeat")) {
+      repeatLastResult()
+      return
+    }
+
+    if (/\b(star|unstar|save) (this|that|it)\b/.test(command)) {
+      const snapshot = currentSnapshot()
+      if (snapshot) toggleStar(snapshot)
+      return
+    }
+
+    if (/\bdelete (this|that|it)\b/.test(command)) {
+      const snapshot = currentSnapshot()
+      if (snapshot) removeSnapshot(snapshot)
+      return
+    }
+
     if (command.includes("emergency")) {
       toast({
         title: "Emergency Contact",
@@ -83,6 +672,12 @@ export default function ScanPage() {
       return
     }
 
+    // Questions go to the last analyzed picture until the user asks for a new one
+    if (pictureConversationRef.current) {
+      askFollowUp(text)
+      return
+    }
+
     // If camera is active and we have a transcript, use it as a question for the image
     if (cameraActive) {
       setUserQuestion(text)
@@ -95,11 +690,12 @@ export default function ScanPage() {
       if (!videoRef.current) return
 
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: "environment" },
+        video: camera.constraints(),
       })
 
       videoRef.current.srcObject = stream
       setCameraActive(true)
+      await camera.detect(stream)
 
       toast({
         title: "Camera activated",
@@ -129,6 +725,9 @@ export default function ScanPage() {
     tracks.forEach((track) => track.stop())
     videoRef.current.srcObject = null
     setCameraActive(false)
+    stopContinuousScan()
+    guidance.stop()
+    camera.reset()
 
     toast({
       title: "Camera stopped",
@@ -136,39 +735,95 @@ export default function ScanPage() {
     })
   }
 
-  // Compress image before sending to API
-  const compressImage = (canvas: HTMLCanvasElement, quality = 0.7): string => {
-    return canvas.toDataURL("image/jpeg", quality)
+  const captureDocumentPage = async () => {
+    if (!videoRef.current || !canvasRef.current || !cameraActive) return
+    await documentReader.readPage(await captureFrame())
   }
 
-  // Get a mock response when API fails
-  const getMockResponse = (question?: string): string => {
-    const randomIndex = Math.floor(Math.random() * MOCK_RESPONSES.length)
-    let response = MOCK_RESPONSES[randomIndex]
+  // Speaks what a camera control did, or why it did nothing
+  const announceCameraControl = (result: CameraControlResult, done: string, unsupported: string) => {
+    const message =
+      result === "done" ? done : result === "unsupported" ? unsupported : "That camera setting could not be changed."
 
-    if (question) {
-      response += ` Regarding your question: "${question}", I'm currently unable to provide a specific answer as I'm operating in offline mode.`
-    }
+    toast({
+      title: "Camera",
+      description: message,
+      variant: result === "done" ? "default" : "destructive",
+    })
 
-    return response
+    if (voiceFeedback) {
+      speak(message)
+    }
   }
 
-  // Update the captureImage function to compress the image
-  const captureImage = async (question?: string) => {
-    if (!videoRef.current || !canvasRef.current || !cameraActive) {
-      toast({
-        title: "Camera not active",
-        description: "Please start the camera first",
-        variant: "destructive",
-      })
-      return
+  // Camera controls need a running camera, except the resolution, which is also used for the next start
+  const requireCamera = () => {
+    if (cameraActive) return true
+
+    toast({
+      title: "Camera not active",
+      description: "Please start the camera first",
+      variant: "destructive",
+    })
+
+    if (voiceFeedback) {
+      speak("Please start the camera first.")
     }
+    return false
+  }
+
+  const handleSwitchLens = async (target?: "user" | "environment") => {
+    if (!requireCamera()) return
+    const result = await camera.switchLens(target)
+    const lens =
+      (target ?? (camera.facingMode === "environment" ? "user" : "environment")) === "user" ? "Front" : "Back"
+    announceCameraControl(result, `${lens} camera on.`, "This device has only one camera.")
+  }
+
+  const handleTorch = async (on: boolean) => {
+    if (!requireCamera()) return
+    const result = await camera.setTorch(on)
+    announceCameraControl(
+      result,
+      on ? "Flashlight on." : "Flashlight off.",
+      camera.facingMode === "user"
+        ? "The front camera has no flashlight. Say back camera to switch."
+        : "This camera has no flashlight, or the browser cannot control it.",
+    )
+  }
+
+  const handleZoom = async (direction: 1 | -1) => {
+    if (!requireCamera()) return
+    const result = await camera.zoomBy(direction)
+    announceCameraControl(
+      result,
+      direction > 0 ? "Zoomed in." : "Zoomed out.",
+      "This camera cannot zoom, or the browser cannot control it.",
+    )
+  }
+
+  const handleResolution = async (preset: ResolutionPreset) => {
+    const result = await camera.setResolution(preset)
+    const { width, height } = RESOLUTION_PRESETS[preset]
+    announceCameraControl(
+      result,
+      `${preset[0].toUpperCase()}${preset.slice(1)} resolution, ${width} by ${height}.`,
+      `This camera does not support ${preset} resolution.`,
+    )
+  }
+
+  // Compress image before sending to API
+  const compressImage = (canvas: HTMLCanvasElement, quality = 0.7) => {
+    return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", quality))
+  }
 
+  // Draws the current video frame onto the canvas and returns it as a compressed JPEG
+  const captureFrame = async () => {
     const video = videoRef.current
     const canvas = canvasRef.current
-    const context = canvas.getContext("2d")
+    const context = canvas?.getContext("2d")
 
-    if (!context) return
+    if (!video || !canvas || !context) return null
 
     // Set canvas dimensions to match video but scale down for better performance
     const scaleFactor = 0.7 // Reduce to 70% of original size
@@ -179,54 +834,155 @@ export default function ScanPage() {
     context.drawImage(video, 0, 0, canvas.width, canvas.height)
 
     // Compress the image
-    const compressedImage = compressImage(canvas, 0.7)
+    return compressImage(canvas, 0.7)
+  }
+
+  // Update the captureImage function to compress the image
+  const captureImage = async (question?: string, mode = analysisMode) => {
+    if (!videoRef.current || !canvasRef.current || !cameraActive) {
+      toast({
+        title: "Camera not active",
+        description: "Please start the camera first",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const compressedImage = await captureFrame()
 
     // Make sure question is a simple string if provided
     const questionText = question ? String(question) : undefined
 
     // Process the image with the optional question
-    await processImage(compressedImage, questionText)
+    await processImage(compressedImage, questionText, mode)
   }
 
-  // Update the processImage function with better error handling and retry logic
-  const processImage = async (imageBase64: string, question?: string) => {
-    setIsProcessing(true)
+  // Draws a photo from the gallery onto the canvas, so the offline checks see it too, and returns it as a JPEG.
+  // Formats the browser cannot decode, such as HEIC in most browsers, are sent as they are for the server to convert.
+  const preparePhoto = async (photo: Blob) => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context) return photo
 
     try {
-      // Extract the base64 data without the prefix
-      const base64Data = imageBase64.split(",")[1]
+      const bitmap = await createImageBitmap(photo)
+      const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(bitmap.width, bitmap.height))
+      canvas.width = Math.round(bitmap.width * scale)
+      canvas.height = Math.round(bitmap.height * scale)
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+      bitmap.close()
+      return (await compressImage(canvas, 0.8)) ?? photo
+    } catch {
+      return photo
+    }
+  }
 
-      if (!base64Data) {
-        throw new Error("Invalid image data")
-      }
+  const announcePhotoProblem = (message: string) => {
+    toast({
+      title: "Photo not analyzed",
+      description: message,
+      variant: "destructive",
+    })
 
-      // Call the API to analyze the image
-      const response = await fetch("/api/analyze-image", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          image: base64Data,
-          prompt: question
-            ? String(question)
-            : "Describe this scene in detail for a visually impaired person. Focus on any obstacles, people, or important elements.",
-        }),
-      })
+    if (voiceFeedback) {
+      speak(message)
+    }
+  }
+
+  // Analyzes a photo picked, dropped, pasted or shared, through the same pipeline as camera pictures
+  const analyzePhoto = async (photo: Blob) => {
+    if (isProcessing) return
+
+    if (!photo.type.startsWith("image/")) {
+      announcePhotoProblem("That file is not a photo. Please choose an image file.")
+      return
+    }
+
+    if (isScanning) {
+      stopContinuousScan()
+    }
+
+    forgetPicture()
+    if (voiceFeedback) {
+      speak("Analyzing your photo.")
+    }
+    await processImage(await preparePhoto(photo))
+  }
+
+  // The paste and share listeners are registered once, so they call the latest version through a ref
+  const analyzePhotoRef = useRef(analyzePhoto)
+  analyzePhotoRef.current = analyzePhoto
+
+  const handlePhotoSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Allow picking the same file again
+    event.target.value = ""
+    if (file) analyzePhoto(file)
+  }
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes("Files")) return
+    event.preventDefault()
+    setIsDraggingFile(true)
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault()
+    setIsDraggingFile(false)
+    const file = event.dataTransfer.files[0]
+    if (file) analyzePhoto(file)
+  }
+
+  // Send the image for analysis. Retries and timeouts for the model call happen on the server
+  // (see lib/call-policy); the page only bounds the total wait and keeps the user informed.
+  const processImage = async (image: Blob | null, question?: string, mode = analysisMode) => {
+    const signal = beginRequest()
 
-      const data = await response.json()
+    const prompt = question ? String(question) : DEFAULT_SCAN_PROMPT
+    productScan.clearPendingLink()
+    medicationList.forgetCurrent()
+    // Navigation commands such as "repeat" belong to the new result, not to a document read before
+    documentReader.close()
 
-      if (!response.ok) {
-        throw new Error(data.error || data.message || "Failed to analyze image")
+    try {
+      if (!image) {
+        throw new Error("Invalid image data")
       }
 
-      const analysis = data.analysis
+      // A spoken question always gets a description, whatever the mode
+      if (mode === "hazard" && !question) {
+        const report = await requestHazardReport(image, signal)
+        announceHazards(report)
+        rememberPicture(image, prompt, describeHazardReport(report))
+        recordSnapshot(image, prompt, describeHazardReport(report))
+      } else if (mode === "currency" && !question) {
+        const { notes, phrase } = await requestCurrencyReport(image, signal)
+        announceCurrency(notes, phrase)
+        rememberPicture(image, CURRENCY_PROMPT, phrase)
+        recordSnapshot(image, CURRENCY_PROMPT, phrase)
+      } else if (mode === "product" && !question) {
+        await productScan.scanCodes(image, signal)
+      } else if (mode === "medication" && !question) {
+        await medicationList.readLabel(image, signal)
+      } else if (mode === "color" && !question) {
+        await colors.readColors(image, signal)
+      } else {
+        // Faces are matched on the device, before the canvas is reused, and only names are added to the description
+        const recognized = question ? null : await people.recognize()
 
-      setAnalysisResult(analysis)
+        // Call the API to analyze the image
+        const description = await requestImageAnalysis(image, prompt, signal)
+        const analysis = recognized ? `${recognized} ${description}` : description
+        // Names stay out of the history and follow-up questions, which can be sent to the server later
+        rememberPicture(image, prompt, description)
+        recordSnapshot(image, prompt, description)
 
-      // Speak the analysis if voice feedback is enabled
-      if (voiceFeedback) {
-        speak(analysis)
+        showResult(analysis)
+
+        // Speak the analysis if voice feedback is enabled
+        if (voiceFeedback) {
+          speak(analysis)
+        }
       }
 
       toast({
@@ -236,29 +992,481 @@ export default function ScanPage() {
     } catch (error) {
       console.error("Error analyzing image:", error)
 
-      // Use a mock response
-      const mockResponse = getMockResponse(question)
+      // Colors can still be measured on the device without a connection
+      if (isOfflineError(error) && mode === "color" && !question && image) {
+        await colors.readLocalColors(image)
+        return
+      }
+
+      // Without a connection, say so honestly and keep the frame for later, in the mode it was taken in
+      if (isOfflineError(error) && image) {
+        if (question || mode === "describe" || mode === "product") {
+          await handleOfflineCapture({ image, prompt })
+        } else {
+          const modePrompt = mode === "currency" ? CURRENCY_PROMPT : mode === "medication" ? MEDICATION_PROMPT : prompt
+          await handleOfflineCapture({ image, prompt: modePrompt, mode })
+        }
+        return
+      }
+
+      // Otherwise tell the user what went wrong and what to do about it
+      const errorMessage = describeError("image", error)
 
       toast({
-        title: "Using offline mode",
-        description: "Could not connect to AI service. Using basic analysis.",
+        title: "Analysis failed",
+        description: errorMessage,
+        variant: "destructive",
       })
 
-      setAnalysisResult(mockResponse)
+      setAnalysisResult(errorMessage)
+      setIsLocalResult(false)
 
       if (voiceFeedback) {
-        speak(mockResponse)
+        speak(errorMessage)
       }
     } finally {
-      setIsProcessing(false)
+      endRequest()
       setUserQuestion("")
     }
   }
 
-  const toggleListening = () => {
-    if (isSpeaking) {
-      stopSpeaking()
-      return
+  const currentSnapshot = () => snapshots.find((snapshot) => snapshot.id === selectedSnapshotId) ?? snapshots[0]
+
+  // Shows and reads a saved result, and sends follow-up questions to its picture
+  const showSnapshot = (snapshot: SavedSnapshot, spoken = true) => {
+    setSelectedSnapshotId(snapshot.id)
+    setAnalysisResult(snapshot.description)
+    setHazards([])
+    setCurrencyNotes([])
+    medicationList.forgetCurrent()
+    documentReader.close()
+    setIsLocalResult(false)
+    setUserQuestion("")
+    rememberPicture(snapshot.image, snapshot.prompt, snapshot.description)
+
+    if (spoken && voiceFeedback) {
+      speak(`From ${describeAge(snapshot.capturedAt)}: ${snapshot.description}`)
+    }
+  }
+
+  // Moves through the history by voice, 1 is older and -1 is newer
+  const stepHistory = (step: number) => {
+    const current = snapshots.findIndex((snapshot) => snapshot.id === selectedSnapshotId)
+    const snapshot = snapshots[current + step]
+
+    if (!snapshot) {
+      const message =
+        snapshots.length === 0
+          ? "There are no saved results yet."
+          : step > 0
+            ? "No older results."
+            : "No newer results."
+      if (voiceFeedback) {
+        speak(message)
+      }
+      return
+    }
+
+    showSnapshot(snapshot)
+  }
+
+  const repeatLastResult = () => {
+    const text = analysisResult || snapshots[0]?.description
+    if (!voiceFeedback) return
+    speak(text || "There is nothing to repeat yet.")
+  }
+
+  // Lets the user ask a new question about a saved picture
+  const askAboutSnapshot = (snapshot: SavedSnapshot) => {
+    showSnapshot(snapshot, false)
+    if (voiceFeedback) {
+      speak("Ask your question about this picture.")
+    }
+  }
+
+  const toggleStar = async (snapshot: SavedSnapshot) => {
+    const updated = { ...snapshot, starred: !snapshot.starred }
+    try {
+      await updateSnapshot(updated)
+      setSnapshots((current) => current.map((item) => (item.id === updated.id ? updated : item)))
+      if (voiceFeedback) {
+        speak(updated.starred ? "Result starred." : "Star removed.")
+      }
+    } catch (error) {
+      console.error("Error updating scan history:", error)
+    }
+  }
+
+  const removeSnapshot = async (snapshot: SavedSnapshot) => {
+    try {
+      await deleteSnapshot(snapshot.id)
+      setSnapshots((current) => current.filter((item) => item.id !== snapshot.id))
+      if (selectedSnapshotId === snapshot.id) {
+        setSelectedSnapshotId(null)
+      }
+      if (pictureConversationRef.current?.image === snapshot.image) {
+        forgetPicture()
+      }
+      if (voiceFeedback) {
+        speak("Result deleted.")
+      }
+    } catch (error) {
+      console.error("Error deleting from scan history:", error)
+    }
+  }
+
+  // The hazard report as the model's side of the conversation about the picture
+  const describeHazardReport = (report: HazardReport) =>
+    [...sortHazards(report.hazards).map(hazardWarning), report.summary].join(" ")
+
+  // Answers a spoken question about the last analyzed picture, without taking a new one
+  const askFollowUp = async (question: string) => {
+    const conversation = pictureConversationRef.current
+    if (!conversation) return
+
+    if (!navigator.onLine) {
+      const message = "You are offline. Follow-up questions about the picture need a connection."
+      setAnalysisResult(message)
+      setIsLocalResult(true)
+      if (voiceFeedback) {
+        speak(message)
+      }
+      return
+    }
+
+    setUserQuestion(question)
+    const signal = beginRequest()
+
+    // Keep the original description and the most recent exchanges within the message limits,
+    // cutting long descriptions and answers rather than failing the question
+    const [prompt, description, ...followUps] = conversation.messages
+    const messages: ChatMessage[] = [
+      ...[prompt, description, ...followUps.slice(-(MAX_CHAT_MESSAGES - 3))].map(fitHistoryMessage),
+      { role: "user", content: question },
+    ]
+
+    try {
+      const answer = await requestImageChat(conversation.image, messages, signal)
+
+      // A new picture may have been analyzed while waiting
+      if (pictureConversationRef.current === conversation) {
+        conversation.messages = [...messages, { role: "assistant", content: answer }]
+      }
+
+      showResult(answer)
+
+      if (voiceFeedback) {
+        speak(answer)
+      }
+    } catch (error) {
+      console.error("Error answering follow-up question:", error)
+
+      // A refused question is a problem with the question, the picture itself was already read
+      const errorMessage =
+        error instanceof AIServiceError && error.code === "invalid_input"
+          ? `I could not ask that question. ${error.message.replace(/\.?$/, ".")}`
+          : describeError("image", error)
+
+      toast({
+        title: "Question failed",
+        description: errorMessage,
+        variant: "destructive",
+      })
+
+      setAnalysisResult(errorMessage)
+      setIsLocalResult(false)
+
+      if (voiceFeedback) {
+        speak(errorMessage)
+      }
+    } finally {
+      endRequest()
+    }
+  }
+
+  // Offline mode: never guess at the scene. Queue the frame and offer only what can be measured on the device.
+  const handleOfflineCapture = async (frame: Omit<PendingFrame, "capturedAt">) => {
+    const queued = await queueOfflineFrame(frame)
+
+    const checks = canvasRef.current ? checkImageLocally(canvasRef.current) : null
+
+    const message = [
+      "You are offline, so image analysis is unavailable.",
+      queued
+        ? "I saved this picture and will describe it when the connection returns."
+        : "I could not save this picture, please take it again once you are back online.",
+      checks ? describeLocalChecks(checks) : "",
+    ]
+      .filter(Boolean)
+      .join(" ")
+
+    toast({
+      title: "Offline mode",
+      description: queued
+        ? "Picture saved for analysis when the connection returns."
+        : "Image analysis is unavailable.",
+    })
+
+    setAnalysisResult(message)
+    setIsLocalResult(true)
+
+    if (voiceFeedback) {
+      speak(message)
+    }
+  }
+
+  // Analyzes a queued frame in the mode it was captured in, and returns the phrase to announce
+  const analyzeQueuedFrame = async (frame: PendingFrame) => {
+    if (frame.mode === "hazard") return describeHazardReport(await requestHazardReport(frame.image))
+    if (frame.mode === "currency") return (await requestCurrencyReport(frame.image)).phrase
+    if (frame.mode === "color") return (await requestColorReport(frame.image, frame.measuredColors ?? [])).phrase
+
+    if (frame.mode === "medication") return medicationList.readQueuedLabel(frame.image)
+
+    return requestImageAnalysis(frame.image, frame.prompt)
+  }
+
+  // Analyze frames captured while offline, oldest first, announcing each result with its age
+  const analyzePendingFrames = async () => {
+    if (drainingQueueRef.current) return
+    drainingQueueRef.current = true
+
+    try {
+      for (const frame of await getPendingFrames()) {
+        try {
+          const analysis = await analyzeQueuedFrame(frame)
+          await removePendingFrame(frame.id)
+          recordSnapshot(frame.image, frame.prompt, analysis, frame.capturedAt)
+
+          const message = `Your picture from ${describeAge(frame.capturedAt)}: ${analysis}`
+          setAnalysisResult(message)
+          setIsLocalResult(false)
+
+          if (voiceFeedback) {
+            enqueue(message)
+          }
+        } catch (error) {
+          // Frames the service rejects outright will never succeed, anything else is retried next time
+          if (error instanceof AIServiceError && (error.code === "invalid_input" || error.code === "safety_blocked")) {
+            await removePendingFrame(frame.id)
+            continue
+          }
+          console.error("Error analyzing pending frame:", error)
+          break
+        }
+      }
+    } catch (error) {
+      console.error("Error reading pending frames:", error)
+    } finally {
+      drainingQueueRef.current = false
+      setPendingFrameCount(await countPendingFrames().catch(() => 0))
+    }
+  }
+
+  // The connectivity listeners are registered once, so they call the latest version through a ref
+  const analyzePendingFramesRef = useRef(analyzePendingFrames)
+  analyzePendingFramesRef.current = analyzePendingFrames
+
+  // One frame of continuous mode, analyzed in the background. Only information not spoken recently is read out.
+  const scanFrame = async (): Promise<ScanTickResult> => {
+    // Let the previous description finish, and leave room for a picture the user asked for.
+    // Reporting a change keeps the normal interval for the next try.
+    if (isSpeaking || isProcessing) return { changed: true }
+
+    const image = await captureFrame()
+    if (!image || !canvasRef.current) return { changed: false }
+
+    // Skip the upload when the scene has not meaningfully changed since the last analyzed frame
+    const signature = computeFrameSignature(canvasRef.current)
+    if (!hasSceneChanged(lastSignatureRef.current, signature, changeThreshold)) {
+      incrementCounter("unchanged-frames-skipped")
+      return { changed: false }
+    }
+
+    try {
+      const signal = AbortSignal.timeout(CLIENT_BUDGET_MS)
+
+      if (hazardMode) {
+        const report = await requestHazardReport(image, signal)
+        scanFailuresRef.current = 0
+        lastSignatureRef.current = signature
+        incrementCounter("frames-analyzed")
+        rememberPicture(image, DEFAULT_SCAN_PROMPT, describeHazardReport(report))
+
+        setUserQuestion("")
+        return { changed: announceHazards(report, true) }
+      }
+
+      // In currency mode the fixed phrase is read out whenever the notes in view change
+      const prompt = currencyMode ? CURRENCY_PROMPT : CONTINUOUS_SCAN_PROMPT
+      const recognized = currencyMode ? null : await people.recognize()
+      const currency = currencyMode ? await requestCurrencyReport(image, signal) : null
+      const description = currency ? currency.phrase : await requestImageAnalysis(image, prompt, signal)
+      const analysis = recognized ? `${recognized} ${description}` : description
+      scanFailuresRef.current = 0
+      lastSignatureRef.current = signature
+      incrementCounter("frames-analyzed")
+      rememberPicture(image, prompt, description)
+
+      setAnalysisResult(analysis)
+      setHazards([])
+      setCurrencyNotes(currency?.notes ?? [])
+      setIsLocalResult(false)
+      setUserQuestion("")
+
+      const newSentences = findNewSentences(analysis, spokenSentencesRef.current)
+      spokenSentencesRef.current = [...spokenSentencesRef.current, ...newSentences].slice(-RECENT_SENTENCE_COUNT)
+
+      if (voiceFeedback) {
+        newSentences.forEach(enqueue)
+      }
+
+      return { changed: newSentences.length > 0 }
+    } catch (error) {
+      console.error("Error in continuous scan:", error)
+
+      if (isOfflineError(error)) {
+        setIsOffline(true)
+        announceScanStopped("You are offline, so continuous scanning has stopped.")
+        return { changed: false }
+      }
+
+      // Wait as long as the server asked before the next frame
+      if (error instanceof AIServiceError && error.code === "rate_limited") {
+        return { changed: false, retryAfterMs: (error.retryAfterSeconds ?? 0) * 1000 }
+      }
+
+      // A single failure is skipped quietly, repeated ones stop the mode with the reason
+      scanFailuresRef.current += 1
+      if (scanFailuresRef.current >= MAX_SCAN_FAILURES) {
+        announceScanStopped(`${describeError("image", error)} Continuous scanning has stopped.`)
+      }
+      return { changed: false }
+    }
+  }
+
+  // Urgent hazards interrupt anything being said with a short warning and vibrate first, the rest is
+  // queued after them. With onlyNew, as in continuous mode, the non-urgent part skips what was said recently.
+  // Returns whether anything was announced.
+  const announceHazards = (report: HazardReport, onlyNew = false) => {
+    const sorted = sortHazards(report.hazards)
+    setHazards(sorted)
+    setCurrencyNotes([])
+    setAnalysisResult(report.summary)
+    setIsLocalResult(false)
+
+    const pattern = hazardVibration(sorted)
+    if (pattern && hapticFeedback && navigator.vibrate) {
+      navigator.vibrate(pattern)
+    }
+
+    const warnings = sorted.filter((hazard) => hazard.urgency === "high").map(hazardWarning)
+    let details = [...sorted.filter((hazard) => hazard.urgency !== "high").map(hazardWarning), report.summary]
+    if (onlyNew) {
+      details = findNewSentences(details.join(" "), spokenSentencesRef.current)
+      spokenSentencesRef.current = [...spokenSentencesRef.current, ...details].slice(-RECENT_SENTENCE_COUNT)
+    }
+
+    if (voiceFeedback) {
+      if (warnings.length > 0) {
+        speak(warnings.join(" "))
+      }
+      details.forEach(enqueue)
+    }
+
+    return warnings.length + details.length > 0
+  }
+
+  const announceCurrency = (notes: CurrencyNote[], phrase: string) => {
+    setCurrencyNotes(notes)
+    setHazards([])
+    setAnalysisResult(phrase)
+    setIsLocalResult(false)
+
+    if (voiceFeedback) {
+      speak(phrase)
+    }
+  }
+
+  // Turning a mode off goes back to describing the scene
+  const toggleMode = (mode: Exclude<ScanMode, "describe">, enabled: boolean) => {
+    setAnalysisMode(enabled ? mode : "describe")
+    setHazards([])
+    setCurrencyNotes([])
+    documentReader.close()
+
+    const message = enabled ? MODE_MESSAGES[mode] : `${MODE_TITLES[mode]} off. ${MODE_MESSAGES.describe}`
+    toast({
+      title: MODE_TITLES[mode],
+      description: message,
+    })
+
+    if (voiceFeedback) {
+      speak(message)
+    }
+  }
+
+  const handleStartContinuousScan = async () => {
+    if (isScanning) return
+
+    if (!cameraActive) {
+      await startCamera()
+    }
+
+    spokenSentencesRef.current = []
+    scanFailuresRef.current = 0
+    lastSignatureRef.current = null
+    guidance.stop()
+    documentReader.close()
+    if (search.target) search.stop("Search stopped.", false)
+    startContinuousScan()
+
+    const message = `Continuous scanning started, every ${scanInterval} seconds. Say stop scanning to stop.`
+    toast({
+      title: "Continuous scan",
+      description: message,
+    })
+
+    if (voiceFeedback) {
+      speak(message)
+    }
+
+    if (navigator.vibrate) {
+      navigator.vibrate(100)
+    }
+  }
+
+  const announceScanStopped = (message: string) => {
+    stopContinuousScan()
+
+    toast({
+      title: "Continuous scan stopped",
+      description: message,
+    })
+
+    if (voiceFeedback) {
+      speak(message)
+    }
+  }
+
+  const handleStopContinuousScan = () => {
+    if (!isScanning) return
+    announceScanStopped("Continuous scanning stopped.")
+  }
+
+  const setContinuousInterval = (seconds: number) => {
+    const interval = Math.min(MAX_SCAN_INTERVAL_SECONDS, Math.max(MIN_SCAN_INTERVAL_SECONDS, seconds))
+    setScanInterval(interval)
+
+    if (voiceFeedback) {
+      speak(`Continuous scan every ${interval} seconds`)
+    }
+  }
+
+  const toggleListening = () => {
+    if (isSpeaking) {
+      stopSpeaking()
+      return
     }
 
     if (isListening) {
@@ -295,7 +1503,12 @@ export default function ScanPage() {
         </div>
       </header>
 
-      <main className="flex-1 container mx-auto px-4 py-6 flex flex-col relative">
+      <main
+        className="flex-1 container mx-auto px-4 py-6 flex flex-col relative"
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDraggingFile(false)}
+        onDrop={handleDrop}
+      >
         <GlowEffect />
 
         <h1 className="text-2xl md:text-3xl font-bold mb-6 text-center text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-blue-500">
@@ -318,17 +1531,37 @@ export default function ScanPage() {
           />
           <canvas ref={canvasRef} className="hidden" />
 
-          {!cameraActive && (
+          {!cameraActive && !isDraggingFile && (
             <div className="absolute inset-0 flex items-center justify-center bg-black/70">
               <p className="text-white text-xl">Camera inactive. Click the camera button or say "Start camera"</p>
             </div>
           )}
+
+          {isDraggingFile && (
+            <div className="absolute inset-0 flex items-center justify-center border-4 border-dashed border-purple-400 bg-black/80">
+              <p className="text-white text-xl">Drop the photo to analyze it</p>
+            </div>
+          )}
         </motion.div>
 
+        {(isOffline || pendingFrameCount > 0) && (
+          <div
+            role="status"
+            className="w-full max-w-3xl mx-auto mb-6 flex items-center gap-2 rounded-lg border border-yellow-600/50 bg-yellow-900/20 p-3 text-yellow-200"
+          >
+            <WifiOff size={20} aria-hidden="true" />
+            <span style={{ fontSize: `${Number.parseInt(fontSize)}px` }}>
+              {isOffline ? "Offline mode: image analysis is unavailable." : "Back online."}
+              {pendingFrameCount > 0 &&
+                ` ${pendingFrameCount} picture${pendingFrameCount === 1 ? "" : "s"} waiting for analysis.`}
+            </span>
+          </div>
+        )}
+
         <div className="flex flex-wrap gap-4 justify-center mb-6">
           <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
             <Button
-              onClick={cameraActive ? captureImage : startCamera}
+              onClick={() => (cameraActive ? captureImage() : startCamera())}
               size="lg"
               className="bg-purple-700 hover:bg-purple-600 text-white"
               disabled={isProcessing}
@@ -339,6 +1572,210 @@ export default function ScanPage() {
             </Button>
           </motion.div>
 
+          <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              variant="outline"
+              size="lg"
+              className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+              disabled={isProcessing}
+              aria-label="Analyze a photo from your device. You can also paste or drop a photo."
+            >
+              <ImageUp size={24} className="mr-2" />
+              <span>Analyze Photo</span>
+            </Button>
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handlePhotoSelected} />
+          </motion.div>
+
+          {cameraActive && (
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                onClick={() => (guidance.isGuiding ? guidance.stop(true) : guidance.start("scene"))}
+                variant="outline"
+                size="lg"
+                className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                disabled={isProcessing}
+                aria-pressed={guidance.isGuiding && guidance.target === "scene"}
+                aria-label={
+                  guidance.isGuiding ? "Stop guided capture" : "Start guided capture with spoken framing hints"
+                }
+              >
+                <Crosshair size={24} className="mr-2" />
+                <span>{guidance.isGuiding ? "Stop Guiding" : "Guided Capture"}</span>
+              </Button>
+            </motion.div>
+          )}
+
+          {cameraActive && !guidance.isGuiding && (
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                onClick={() => documentReader.start(false)}
+                variant="outline"
+                size="lg"
+                className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                disabled={isProcessing}
+                aria-label="Read a document. I will guide you to frame the page, then read it word for word."
+              >
+                <FileText size={24} className="mr-2" />
+                <span>Read Document</span>
+              </Button>
+            </motion.div>
+          )}
+
+          {cameraActive && (
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                onClick={isScanning ? handleStopContinuousScan : handleStartContinuousScan}
+                variant="outline"
+                size="lg"
+                className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                aria-pressed={isScanning}
+                aria-label={isScanning ? "Stop continuous scan" : "Start continuous scan"}
+              >
+                <ScanEye size={24} className="mr-2" />
+                <span>{isScanning ? "Stop Scanning" : "Continuous Scan"}</span>
+              </Button>
+            </motion.div>
+          )}
+
+          {cameraActive && (
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                onClick={() => toggleMode("hazard", !hazardMode)}
+                variant="outline"
+                size="lg"
+                className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                aria-pressed={hazardMode}
+                aria-label={hazardMode ? "Turn off hazard mode" : "Turn on hazard mode"}
+              >
+                <TriangleAlert size={24} className="mr-2" />
+                <span>{hazardMode ? "Hazard Mode On" : "Hazard Mode"}</span>
+              </Button>
+            </motion.div>
+          )}
+
+          {cameraActive && (
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                onClick={() => toggleMode("currency", !currencyMode)}
+                variant="outline"
+                size="lg"
+                className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                aria-pressed={currencyMode}
+                aria-label={currencyMode ? "Turn off currency mode" : "Turn on currency mode"}
+              >
+                <Banknote size={24} className="mr-2" />
+                <span>{currencyMode ? "Currency Mode On" : "Currency Mode"}</span>
+              </Button>
+            </motion.div>
+          )}
+
+          {cameraActive && (
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                onClick={() => toggleMode("color", !colorMode)}
+                variant="outline"
+                size="lg"
+                className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                aria-pressed={colorMode}
+                aria-label={colorMode ? "Turn off color mode" : "Turn on color mode"}
+              >
+                <Palette size={24} className="mr-2" />
+                <span>{colorMode ? "Color Mode On" : "Color Mode"}</span>
+              </Button>
+            </motion.div>
+          )}
+
+          {cameraActive && (
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                onClick={() => toggleMode("product", !productMode)}
+                variant="outline"
+                size="lg"
+                className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                aria-pressed={productMode}
+                aria-label={productMode ? "Turn off product mode" : "Turn on product mode"}
+              >
+                <ScanBarcode size={24} className="mr-2" />
+                <span>{productMode ? "Product Mode On" : "Product Mode"}</span>
+              </Button>
+            </motion.div>
+          )}
+
+          {cameraActive && (
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                onClick={() => toggleMode("medication", !medicationMode)}
+                variant="outline"
+                size="lg"
+                className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                aria-pressed={medicationMode}
+                aria-label={medicationMode ? "Turn off medication mode" : "Turn on medication mode"}
+              >
+                <Pill size={24} className="mr-2" />
+                <span>{medicationMode ? "Medication Mode On" : "Medication Mode"}</span>
+              </Button>
+            </motion.div>
+          )}
+
+          {cameraActive &&
+            (search.target ? (
+              <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                <Button
+                  onClick={() => search.stop("Search stopped.")}
+                  variant="outline"
+                  size="lg"
+                  className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                  aria-label={`Stop searching for ${search.target}`}
+                >
+                  <Search size={24} className="mr-2" />
+                  <span>Stop Searching</span>
+                </Button>
+              </motion.div>
+            ) : (
+              <form
+                onSubmit={(event) => {
+                  event.preventDefault()
+                  if (search.input.trim()) search.start(search.input.trim())
+                }}
+                className="flex gap-2"
+              >
+                <Input
+                  value={search.input}
+                  onChange={(event) => search.setInput(event.target.value)}
+                  placeholder="What should I find?"
+                  aria-label="Object to find"
+                  className="w-44 h-11 bg-black/30 border-purple-900/50 text-gray-200"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  size="lg"
+                  className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                  disabled={!search.input.trim()}
+                >
+                  <Search size={24} className="mr-2" />
+                  <span>Find</span>
+                </Button>
+              </form>
+            ))}
+
+          {cameraActive && colorMode && colors.lastItem && (
+            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+              <Button
+                onClick={colors.matchNext}
+                disabled={isProcessing}
+                variant="outline"
+                size="lg"
+                className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                aria-label="Check whether the item in view matches the last one"
+              >
+                <Palette size={24} className="mr-2" />
+                <span>Does This Match?</span>
+              </Button>
+            </motion.div>
+          )}
+
           {cameraActive && (
             <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
               <Button
@@ -354,6 +1791,64 @@ export default function ScanPage() {
           )}
         </div>
 
+        {cameraActive && (
+          <div className="flex flex-wrap gap-2 justify-center mb-6" role="group" aria-label="Camera controls">
+            <Button
+              onClick={() => handleSwitchLens()}
+              variant="ghost"
+              className="text-purple-300 hover:bg-purple-900/30"
+              aria-label={camera.facingMode === "environment" ? "Switch to front camera" : "Switch to back camera"}
+            >
+              <SwitchCamera size={20} className="mr-2" />
+              <span>{camera.facingMode === "environment" ? "Back Camera" : "Front Camera"}</span>
+            </Button>
+            <Button
+              onClick={() => handleTorch(!camera.torchOn)}
+              variant="ghost"
+              className="text-purple-300 hover:bg-purple-900/30"
+              aria-pressed={camera.torchOn}
+              aria-label={camera.torchOn ? "Turn flashlight off" : "Turn flashlight on"}
+            >
+              {camera.torchOn ? (
+                <FlashlightOff size={20} className="mr-2" />
+              ) : (
+                <Flashlight size={20} className="mr-2" />
+              )}
+              <span>{camera.torchOn ? "Light Off" : "Light On"}</span>
+            </Button>
+            <Button
+              onClick={() => handleZoom(-1)}
+              variant="ghost"
+              size="icon"
+              className="text-purple-300 hover:bg-purple-900/30"
+              aria-label="Zoom out"
+            >
+              <ZoomOut size={20} />
+            </Button>
+            <Button
+              onClick={() => handleZoom(1)}
+              variant="ghost"
+              size="icon"
+              className="text-purple-300 hover:bg-purple-900/30"
+              aria-label={camera.zoom !== null ? `Zoom in, currently ${camera.zoom.toFixed(1)} times` : "Zoom in"}
+            >
+              <ZoomIn size={20} />
+            </Button>
+            {(Object.keys(RESOLUTION_PRESETS) as ResolutionPreset[]).map((preset) => (
+              <Button
+                key={preset}
+                onClick={() => handleResolution(preset)}
+                variant="ghost"
+                className={`hover:bg-purple-900/30 ${camera.resolution === preset ? "text-white" : "text-purple-300"}`}
+                aria-pressed={camera.resolution === preset}
+                aria-label={`${preset} resolution`}
+              >
+                {RESOLUTION_PRESETS[preset].height}p
+              </Button>
+            ))}
+          </div>
+        )}
+
         {analysisResult && (
           <motion.div
             initial={{ opacity: 0 }}
@@ -364,21 +1859,139 @@ export default function ScanPage() {
               className="text-xl font-semibold mb-2 text-purple-300"
               style={{ fontSize: `${Number.parseInt(fontSize) * 1.1}px` }}
             >
-              Analysis Result:
+              {isLocalResult ? "Offline - on-device check only:" : "Analysis Result:"}
             </h2>
+            {hazards.length > 0 && (
+              <ul className="mb-3 space-y-1" style={{ fontSize: `${Number.parseInt(fontSize)}px` }}>
+                {hazards.map((hazard, index) => (
+                  <li
+                    key={index}
+                    className={
+                      hazard.urgency === "high"
+                        ? "font-semibold text-red-300"
+                        : hazard.urgency === "medium"
+                          ? "text-yellow-200"
+                          : "text-gray-300"
+                    }
+                  >
+                    {hazardWarning(hazard)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {currencyNotes.length > 0 && (
+              <ul className="mb-3 space-y-1" style={{ fontSize: `${Number.parseInt(fontSize)}px` }}>
+                {currencyNotes.map((note, index) => (
+                  <li key={index} className={isConfidentNote(note) ? "font-semibold text-green-300" : "text-gray-400"}>
+                    {isConfidentNote(note) ? formatAmount(note.denomination, note.currency) : "Unidentified note"}
+                  </li>
+                ))}
+              </ul>
+            )}
             <p className="text-lg text-gray-200" style={{ fontSize: `${Number.parseInt(fontSize)}px` }}>
               {analysisResult}
             </p>
 
+            {productScan.pendingLink && (
+              <Button
+                onClick={productScan.openPendingLink}
+                variant="outline"
+                className="mt-3 border-yellow-500 text-yellow-200 hover:bg-yellow-900/30"
+                aria-label={`Open link to ${new URL(productScan.pendingLink).hostname}, only if you trust it`}
+              >
+                <ExternalLink size={20} className="mr-2" />
+                <span>Open Link</span>
+              </Button>
+            )}
+
+            {medicationList.current && (
+              <form
+                onSubmit={(event) => {
+                  event.preventDefault()
+                  medicationList.saveCurrent(medicationList.purpose)
+                }}
+                className="mt-3 flex flex-wrap gap-2"
+              >
+                <Input
+                  value={medicationList.purpose}
+                  onChange={(event) => medicationList.setPurpose(event.target.value)}
+                  placeholder="What is it for? (optional)"
+                  aria-label="What this medication is for, optional"
+                  className="max-w-xs bg-black/30 border-purple-900/50 text-gray-200"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+                >
+                  <Pill size={20} className="mr-2" />
+                  <span>Save to My Medications</span>
+                </Button>
+              </form>
+            )}
+
             {userQuestion && (
               <div className="mt-4 pt-4 border-t border-purple-900/50">
                 <p className="text-sm text-purple-300">In response to your question:</p>
                 <p className="text-md text-gray-300 italic">"{userQuestion}"</p>
               </div>
             )}
+
+            {hasPictureConversation && !isScanning && (
+              <p className="mt-4 text-sm text-purple-300">
+                Follow-up questions go to this picture. Say "new picture" to start over.
+              </p>
+            )}
           </motion.div>
         )}
 
+        <DocumentView
+          pages={documentReader.pages}
+          position={documentReader.position}
+          fontSize={fontSize}
+          onSelect={documentReader.readBlock}
+        />
+
+        {documentReader.pages.length > 0 && cameraActive && !guidance.isGuiding && (
+          <div className="flex justify-center mb-6">
+            <Button
+              onClick={() => documentReader.start(true)}
+              variant="outline"
+              className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+              disabled={isProcessing}
+            >
+              <FileText size={20} className="mr-2" />
+              <span>Add Page</span>
+            </Button>
+          </div>
+        )}
+
+        <MedicationList medications={medicationList.medications} fontSize={fontSize} onDelete={medicationList.remove} />
+
+        <KnownPeople
+          people={people.people}
+          consent={people.consent}
+          location={getKnownPeopleStore().location}
+          canDetectFaces={people.faceDetection}
+          canEnroll={cameraActive}
+          isEnrolling={people.isEnrolling}
+          fontSize={fontSize}
+          onConsent={people.grantConsent}
+          onEnroll={people.enroll}
+          onDelete={people.remove}
+          onDeleteAll={people.deleteAll}
+        />
+
+        <ScanHistory
+          snapshots={snapshots}
+          selectedId={selectedSnapshotId}
+          fontSize={fontSize}
+          onReplay={(snapshot) => showSnapshot(snapshot)}
+          onAsk={askAboutSnapshot}
+          onToggleStar={toggleStar}
+          onDelete={removeSnapshot}
+        />
+
         <div className="flex flex-col items-center mt-auto">
           <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }} className="mb-4">
             <Button
@@ -412,14 +2025,22 @@ export default function ScanPage() {
             transition={isListening ? { repeat: Number.POSITIVE_INFINITY, duration: 2 } : {}}
           >
             {isProcessing
-              ? "Processing..."
+              ? remainingSeconds !== null
+                ? `Still working... up to ${remainingSeconds} seconds left`
+                : "Processing..."
               : isListening
                 ? "Listening..."
                 : isSpeaking
                   ? "Speaking..."
-                  : cameraActive
-                    ? "Click mic to ask about what you see"
-                    : "Click mic to give a command"}
+                  : guidance.isGuiding
+                    ? (guidance.hintMessage ?? "Checking the frame...")
+                    : search.target
+                      ? `Searching for ${search.target}. Say "stop searching" to stop`
+                      : isScanning
+                        ? `Scanning every ${scanInterval} seconds. Say "stop scanning" to stop`
+                        : cameraActive
+                          ? "Click mic to ask about what you see"
+                          : "Click mic to give a command"}
           </motion.p>
 
           <EmergencyButton fontSize={fontSize} highContrast={highContrast} />
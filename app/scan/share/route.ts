@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server"
+
+// Shares normally never reach the server, the service worker in public/share-target-sw.js answers them.
+// This only runs before the worker is installed, so the page can tell the user the photo did not arrive.
+export async function POST(request: Request) {
+  return NextResponse.redirect(new URL("/scan?shared=failed", request.url), 303)
+}
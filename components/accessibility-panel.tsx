@@ -1,5 +1,6 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import { motion } from "framer-motion"
 import { X } from "lucide-react"
 import { Button } from "@/components/ui/button"
@@ -7,6 +8,9 @@ import { Switch } from "@/components/ui/switch"
 import { Slider } from "@/components/ui/slider"
 import { useAccessibility } from "./accessibility-provider"
 import { useSpeechSynthesis } from "@/hooks/use-speech-synthesis"
+import { MAX_SCAN_INTERVAL_SECONDS, MIN_SCAN_INTERVAL_SECONDS } from "@/lib/continuous-scan"
+import { MAX_CHANGE_THRESHOLD, MIN_CHANGE_THRESHOLD } from "@/lib/frame-diff"
+import { getCounter } from "@/lib/telemetry"
 
 interface AccessibilityPanelProps {
   onClose: () => void
@@ -24,9 +28,19 @@ export default function AccessibilityPanel({ onClose }: AccessibilityPanelProps)
     setHapticFeedback,
     gestureControl,
     setGestureControl,
+    scanInterval,
+    setScanInterval,
+    changeThreshold,
+    setChangeThreshold,
   } = useAccessibility()
 
   const { speak } = useSpeechSynthesis()
+  const [skippedFrames, setSkippedFrames] = useState(0)
+
+  // Read once when the panel opens, localStorage is not available during server rendering
+  useEffect(() => {
+    setSkippedFrames(getCounter("unchanged-frames-skipped"))
+  }, [])
 
   const handleFontSizeChange = (value: number[]) => {
     const newSize = value[0].toString()
@@ -69,6 +83,20 @@ export default function AccessibilityPanel({ onClose }: AccessibilityPanelProps)
     }
   }
 
+  const handleScanIntervalChange = (value: number[]) => {
+    setScanInterval(value[0])
+    if (voiceFeedback) {
+      speak(`Continuous scan every ${value[0]} seconds`)
+    }
+  }
+
+  const handleChangeThresholdChange = (value: number[]) => {
+    setChangeThreshold(value[0])
+    if (voiceFeedback) {
+      speak(`Scene change sensitivity set to ${value[0]} percent`)
+    }
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -196,6 +224,47 @@ export default function AccessibilityPanel({ onClose }: AccessibilityPanelProps)
               className={highContrast ? "bg-white" : ""}
             />
           </div>
+
+          <div className="space-y-2">
+            <label
+              htmlFor="scan-interval"
+              className="text-lg font-medium"
+              style={{ fontSize: `${Number.parseInt(fontSize)}px` }}
+            >
+              Continuous Scan Interval: {scanInterval}s
+            </label>
+            <Slider
+              id="scan-interval"
+              min={MIN_SCAN_INTERVAL_SECONDS}
+              max={MAX_SCAN_INTERVAL_SECONDS}
+              step={1}
+              value={[scanInterval]}
+              onValueChange={handleScanIntervalChange}
+              className={highContrast ? "bg-white" : ""}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label
+              htmlFor="change-threshold"
+              className="text-lg font-medium"
+              style={{ fontSize: `${Number.parseInt(fontSize)}px` }}
+            >
+              Scene Change Threshold: {changeThreshold}%
+            </label>
+            <Slider
+              id="change-threshold"
+              min={MIN_CHANGE_THRESHOLD}
+              max={MAX_CHANGE_THRESHOLD}
+              step={1}
+              value={[changeThreshold]}
+              onValueChange={handleChangeThresholdChange}
+              className={highContrast ? "bg-white" : ""}
+            />
+            <p className="text-sm text-muted-foreground">
+              {skippedFrames} unchanged frame{skippedFrames === 1 ? "" : "s"} skipped so far, saving as many analyses.
+            </p>
+          </div>
         </div>
 
         <div className="mt-8">
@@ -1,6 +1,8 @@
 "use client"
 
 import { createContext, useContext, useState, useEffect, type ReactNode } from "react"
+import { DEFAULT_SCAN_INTERVAL_SECONDS } from "@/lib/continuous-scan"
+import { DEFAULT_CHANGE_THRESHOLD } from "@/lib/frame-diff"
 
 interface AccessibilityContextType {
   fontSize: string
@@ -13,6 +15,12 @@ interface AccessibilityContextType {
   setHapticFeedback: (enabled: boolean) => void
   gestureControl: boolean
   setGestureControl: (enabled: boolean) => void
+  // Seconds between frames in the continuous scan mode of the Video Analyzer
+  scanInterval: number
+  setScanInterval: (seconds: number) => void
+  // Percentage a frame must differ from the last analyzed one before continuous mode uploads it
+  changeThreshold: number
+  setChangeThreshold: (percent: number) => void
 }
 
 const AccessibilityContext = createContext<AccessibilityContextType | undefined>(undefined)
@@ -23,6 +31,8 @@ export function AccessibilityProvider({ children }: { children: ReactNode }) {
   const [voiceFeedback, setVoiceFeedback] = useState(true)
   const [hapticFeedback, setHapticFeedback] = useState(true)
   const [gestureControl, setGestureControl] = useState(false)
+  const [scanInterval, setScanInterval] = useState(DEFAULT_SCAN_INTERVAL_SECONDS)
+  const [changeThreshold, setChangeThreshold] = useState(DEFAULT_CHANGE_THRESHOLD)
 
   // Load settings from localStorage on mount
   useEffect(() => {
@@ -31,12 +41,16 @@ export function AccessibilityProvider({ children }: { children: ReactNode }) {
     const storedVoiceFeedback = localStorage.getItem("vission-voice-feedback")
     const storedHapticFeedback = localStorage.getItem("vission-haptic-feedback")
     const storedGestureControl = localStorage.getItem("vission-gesture-control")
+    const storedScanInterval = localStorage.getItem("vission-scan-interval")
+    const storedChangeThreshold = localStorage.getItem("vission-change-threshold")
 
     if (storedFontSize) setFontSize(storedFontSize)
     if (storedHighContrast) setHighContrast(storedHighContrast === "true")
     if (storedVoiceFeedback) setVoiceFeedback(storedVoiceFeedback === "true")
     if (storedHapticFeedback) setHapticFeedback(storedHapticFeedback === "true")
     if (storedGestureControl) setGestureControl(storedGestureControl === "true")
+    if (storedScanInterval) setScanInterval(Number(storedScanInterval) || DEFAULT_SCAN_INTERVAL_SECONDS)
+    if (storedChangeThreshold) setChangeThreshold(Number(storedChangeThreshold) || DEFAULT_CHANGE_THRESHOLD)
   }, [])
 
   // Save settings to localStorage when they change
@@ -46,6 +60,8 @@ export function AccessibilityProvider({ children }: { children: ReactNode }) {
     localStorage.setItem("vission-voice-feedback", voiceFeedback.toString())
     localStorage.setItem("vission-haptic-feedback", hapticFeedback.toString())
     localStorage.setItem("vission-gesture-control", gestureControl.toString())
+    localStorage.setItem("vission-scan-interval", scanInterval.toString())
+    localStorage.setItem("vission-change-threshold", changeThreshold.toString())
 
     // Apply high contrast mode to the document
     if (highContrast) {
@@ -53,7 +69,7 @@ export function AccessibilityProvider({ children }: { children: ReactNode }) {
     } else {
       document.documentElement.classList.remove("high-contrast-mode")
     }
-  }, [fontSize, highContrast, voiceFeedback, hapticFeedback, gestureControl])
+  }, [fontSize, highContrast, voiceFeedback, hapticFeedback, gestureControl, scanInterval, changeThreshold])
 
   return (
     <AccessibilityContext.Provider
@@ -68,6 +84,10 @@ export function AccessibilityProvider({ children }: { children: ReactNode }) {
         setHapticFeedback,
         gestureControl,
         setGestureControl,
+        scanInterval,
+        setScanInterval,
+        changeThreshold,
+        setChangeThreshold,
       }}
     >
       {children}
@@ -7,9 +7,11 @@ interface ChatBubbleProps {
   }
   fontSize: string
   highContrast: boolean
+  // True while the message is still being streamed in
+  isStreaming?: boolean
 }
 
-export default function ChatBubble({ message, fontSize, highContrast }: ChatBubbleProps) {
+export default function ChatBubble({ message, fontSize, highContrast, isStreaming = false }: ChatBubbleProps) {
   const isUser = message.role === "user"
 
   return (
@@ -19,8 +21,13 @@ export default function ChatBubble({ message, fontSize, highContrast }: ChatBubb
           isUser ? "bg-purple-700/80 text-white" : "bg-[#2a2f48] text-gray-100"
         }`}
       >
-        <p className="text-lg" style={{ fontSize: `${Number.parseInt(fontSize)}px` }}>
+        <p className="text-lg" style={{ fontSize: `${Number.parseInt(fontSize)}px` }} aria-busy={isStreaming}>
           {message.content}
+          {isStreaming && (
+            <span className="ml-1 inline-block animate-pulse" aria-hidden="true">
+              ▍
+            </span>
+          )}
         </p>
       </div>
     </div>
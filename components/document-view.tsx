@@ -0,0 +1,54 @@
+"use client"
+
+import type { DocumentPosition } from "@/lib/document-reader"
+import type { DocumentPage } from "@/lib/schemas"
+
+interface DocumentViewProps {
+  pages: DocumentPage[]
+  // The block being read, highlighted
+  position: DocumentPosition | null
+  fontSize: string
+  onSelect: (position: DocumentPosition) => void
+}
+
+// The text read in document mode, page by page, with the current block highlighted
+export default function DocumentView({ pages, position, fontSize, onSelect }: DocumentViewProps) {
+  if (pages.length === 0) return null
+
+  return (
+    <section
+      className="w-full max-w-3xl mx-auto p-4 rounded-lg mb-6 bg-[#1a1f38]/80 backdrop-blur-sm border border-purple-900/50"
+      aria-label="Document"
+    >
+      {pages.map((page, pageIndex) => (
+        <div key={pageIndex} className="mb-4 last:mb-0">
+          <h2
+            className="text-xl font-semibold mb-2 text-purple-300"
+            style={{ fontSize: `${Number.parseInt(fontSize) * 1.1}px` }}
+          >
+            Page {pageIndex + 1}
+            {page.cutOff && <span className="ml-2 text-sm text-yellow-200">(text cut off)</span>}
+          </h2>
+          {page.blocks.length === 0 && <p className="text-gray-400">No text found on this page.</p>}
+          {page.blocks.map((block, blockIndex) => {
+            const isCurrent = position?.page === pageIndex && position.block === blockIndex
+            return (
+              <button
+                key={blockIndex}
+                type="button"
+                onClick={() => onSelect({ page: pageIndex, block: blockIndex })}
+                aria-current={isCurrent ? "true" : undefined}
+                className={`block w-full text-left rounded px-2 py-1 mb-1 ${
+                  isCurrent ? "bg-purple-900/60 text-white" : "text-gray-200 hover:bg-purple-900/30"
+                } ${block.kind === "heading" ? "font-semibold" : ""}`}
+                style={{ fontSize: `${Number.parseInt(fontSize) * (block.kind === "heading" ? 1.1 : 1)}px` }}
+              >
+                {block.kind === "list_item" ? `• ${block.text}` : block.text}
+              </button>
+            )
+          })}
+        </div>
+      ))}
+    </section>
+  )
+}
@@ -0,0 +1,165 @@
+"use client"
+
+import { useState } from "react"
+import { Trash2, UserPlus, Users, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { FACE_DETECTION_UNAVAILABLE_MESSAGE, type KnownPerson } from "@/lib/known-people"
+
+interface KnownPeopleProps {
+  people: KnownPerson[]
+  consent: boolean
+  // Where enrollment data is kept, such as "only on this device"
+  location: string
+  // False when the browser cannot find faces, then nobody can be enrolled or recognized
+  canDetectFaces: boolean
+  canEnroll: boolean
+  isEnrolling: boolean
+  fontSize: string
+  onConsent: () => void
+  onEnroll: (name: string) => void
+  onDelete: (person: KnownPerson) => void
+  onDeleteAll: () => void
+}
+
+// Opt-in recognition of people the user enrolled. Nothing is kept until the user agrees, and everything can be deleted.
+export default function KnownPeople({
+  people,
+  consent,
+  location,
+  canDetectFaces,
+  canEnroll,
+  isEnrolling,
+  fontSize,
+  onConsent,
+  onEnroll,
+  onDelete,
+  onDeleteAll,
+}: KnownPeopleProps) {
+  const [name, setName] = useState("")
+  const [showConfirm, setShowConfirm] = useState(false)
+
+  return (
+    <section className="w-full max-w-3xl mx-auto mb-6" aria-label="Known people">
+      <h2
+        className="text-xl font-semibold mb-2 text-purple-300"
+        style={{ fontSize: `${Number.parseInt(fontSize) * 1.1}px` }}
+      >
+        Known People
+      </h2>
+
+      {!canDetectFaces && (
+        <p className="text-gray-300 mb-3" style={{ fontSize: `${Number.parseInt(fontSize)}px` }}>
+          {FACE_DETECTION_UNAVAILABLE_MESSAGE}
+        </p>
+      )}
+
+      {!consent ? (
+        <div className="rounded-lg border border-purple-900/50 p-3 bg-[#1a1f38]/80">
+          <p className="text-gray-300 mb-3" style={{ fontSize: `${Number.parseInt(fontSize)}px` }}>
+            Scans can say who is in front of you. Enrolling a person keeps a description of their face, not the photos,{" "}
+            {location}. Only enroll people who agreed to it.
+          </p>
+          <Button
+            onClick={onConsent}
+            variant="outline"
+            className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+          >
+            <Users size={20} className="mr-2" />
+            <span>I Agree, Turn On</span>
+          </Button>
+        </div>
+      ) : (
+        <>
+          <form
+            onSubmit={(event) => {
+              event.preventDefault()
+              if (!name.trim()) return
+              onEnroll(name.trim())
+              setName("")
+            }}
+            className="mb-3 flex flex-wrap gap-2"
+          >
+            <Input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Name of the person in view"
+              aria-label="Name of the person to enroll"
+              className="max-w-xs bg-black/30 border-purple-900/50 text-gray-200"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              className="border-purple-500 text-purple-300 hover:bg-purple-900/30"
+              disabled={!canDetectFaces || !canEnroll || isEnrolling || !name.trim()}
+            >
+              <UserPlus size={20} className="mr-2" />
+              <span>{isEnrolling ? "Taking Photos..." : "Enroll"}</span>
+            </Button>
+          </form>
+
+          {people.length > 0 && (
+            <ul className="space-y-2 mb-3">
+              {people.map((person) => (
+                <li
+                  key={person.id}
+                  className="flex items-center gap-3 rounded-lg border border-purple-900/50 p-2 bg-[#1a1f38]/80"
+                >
+                  <p
+                    className="min-w-0 flex-1 font-semibold text-gray-200"
+                    style={{ fontSize: `${Number.parseInt(fontSize)}px` }}
+                  >
+                    {person.name}
+                  </p>
+                  <Button
+                    onClick={() => onDelete(person)}
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0 text-purple-300"
+                    aria-label={`Delete ${person.name}`}
+                  >
+                    <Trash2 size={20} />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {showConfirm ? (
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => {
+                  setShowConfirm(false)
+                  onDeleteAll()
+                }}
+                variant="destructive"
+                aria-label="Confirm deleting all known people and turning recognition off"
+              >
+                <Trash2 size={20} className="mr-2" />
+                <span>Confirm Delete All</span>
+              </Button>
+              <Button
+                onClick={() => setShowConfirm(false)}
+                variant="outline"
+                size="icon"
+                aria-label="Cancel delete all"
+                className="border-gray-500 text-gray-300"
+              >
+                <X size={24} />
+              </Button>
+            </div>
+          ) : (
+            <Button
+              onClick={() => setShowConfirm(true)}
+              variant="outline"
+              className="border-red-500 text-red-300 hover:bg-red-900/30"
+            >
+              <Trash2 size={20} className="mr-2" />
+              <span>Delete All People</span>
+            </Button>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { medicationName } from "@/lib/medication"
+import type { SavedMedication } from "@/lib/medication-list"
+
+interface MedicationListProps {
+  medications: SavedMedication[]
+  fontSize: string
+  onDelete: (medication: SavedMedication) => void
+}
+
+// The user's saved medications, which new scans in medication mode are checked against
+export default function MedicationList({ medications, fontSize, onDelete }: MedicationListProps) {
+  if (medications.length === 0) return null
+
+  return (
+    <section className="w-full max-w-3xl mx-auto mb-6" aria-label="My medications">
+      <h2
+        className="text-xl font-semibold mb-2 text-purple-300"
+        style={{ fontSize: `${Number.parseInt(fontSize) * 1.1}px` }}
+      >
+        My Medications
+      </h2>
+      <ul className="space-y-2">
+        {medications.map((medication) => (
+          <li
+            key={medication.id}
+            className="flex items-center gap-3 rounded-lg border border-purple-900/50 p-2 bg-[#1a1f38]/80"
+          >
+            <div className="min-w-0 flex-1" style={{ fontSize: `${Number.parseInt(fontSize)}px` }}>
+              <p className="font-semibold text-gray-200">{medicationName(medication)}</p>
+              {medication.purpose && <p className="text-sm text-purple-300">For {medication.purpose}</p>}
+            </div>
+            <Button
+              onClick={() => onDelete(medication)}
+              variant="ghost"
+              size="icon"
+              className="shrink-0 text-purple-300"
+              aria-label={`Remove ${medicationName(medication)} from my medications`}
+            >
+              <Trash2 size={20} />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
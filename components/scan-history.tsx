@@ -0,0 +1,116 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { MessageCircleQuestion, Star, Trash2, Volume2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { describeAge } from "@/lib/offline-queue"
+import type { SavedSnapshot } from "@/lib/scan-history"
+
+interface ScanHistoryProps {
+  snapshots: SavedSnapshot[]
+  // The snapshot follow-up questions currently go to
+  selectedId: number | null
+  fontSize: string
+  onReplay: (snapshot: SavedSnapshot) => void
+  onAsk: (snapshot: SavedSnapshot) => void
+  onToggleStar: (snapshot: SavedSnapshot) => void
+  onDelete: (snapshot: SavedSnapshot) => void
+}
+
+function Thumbnail({ image }: { image: Blob }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(image)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [image])
+
+  if (!url) return <div className="h-16 w-20 shrink-0 rounded bg-black/40" />
+
+  // Decorative, the description next to it says what the picture shows
+  return <img src={url} alt="" className="h-16 w-20 shrink-0 rounded object-cover" />
+}
+
+export default function ScanHistory({
+  snapshots,
+  selectedId,
+  fontSize,
+  onReplay,
+  onAsk,
+  onToggleStar,
+  onDelete,
+}: ScanHistoryProps) {
+  if (snapshots.length === 0) return null
+
+  return (
+    <section className="w-full max-w-3xl mx-auto mb-6" aria-label="Scan history">
+      <h2
+        className="text-xl font-semibold mb-2 text-purple-300"
+        style={{ fontSize: `${Number.parseInt(fontSize) * 1.1}px` }}
+      >
+        History
+      </h2>
+      <ul className="space-y-2">
+        {snapshots.map((snapshot) => (
+          <li
+            key={snapshot.id}
+            className={`flex items-start gap-3 rounded-lg border p-2 bg-[#1a1f38]/80 ${
+              snapshot.id === selectedId ? "border-purple-400" : "border-purple-900/50"
+            }`}
+          >
+            <Thumbnail image={snapshot.thumbnail} />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-purple-300">
+                {describeAge(snapshot.capturedAt)}
+                {snapshot.starred && " · starred"}
+              </p>
+              <p className="line-clamp-2 text-gray-200" style={{ fontSize: `${Number.parseInt(fontSize)}px` }}>
+                {snapshot.description}
+              </p>
+            </div>
+            <div className="flex shrink-0 gap-1">
+              <Button
+                onClick={() => onReplay(snapshot)}
+                variant="ghost"
+                size="icon"
+                className="text-purple-300"
+                aria-label="Read this result again"
+              >
+                <Volume2 size={20} />
+              </Button>
+              <Button
+                onClick={() => onAsk(snapshot)}
+                variant="ghost"
+                size="icon"
+                className="text-purple-300"
+                aria-label="Ask a new question about this picture"
+              >
+                <MessageCircleQuestion size={20} />
+              </Button>
+              <Button
+                onClick={() => onToggleStar(snapshot)}
+                variant="ghost"
+                size="icon"
+                className={snapshot.starred ? "text-yellow-300" : "text-purple-300"}
+                aria-pressed={snapshot.starred}
+                aria-label={snapshot.starred ? "Unstar this result" : "Star this result"}
+              >
+                <Star size={20} fill={snapshot.starred ? "currentColor" : "none"} />
+              </Button>
+              <Button
+                onClick={() => onDelete(snapshot)}
+                variant="ghost"
+                size="icon"
+                className="text-red-400"
+                aria-label="Delete this result"
+              >
+                <Trash2 size={20} />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,67 @@
+"use client"
+
+import { useState, useCallback, useEffect, useRef } from "react"
+import { CLIENT_BUDGET_MS, STILL_WORKING_INTERVAL_MS, watchBudget } from "@/lib/call-policy"
+import { AIServiceError } from "@/lib/errors"
+
+interface CallBudgetHook {
+  // Starts the budget for one request. The returned signal aborts the request when the budget runs out.
+  start: (onStillWorking?: (remainingSeconds: number) => void) => AbortSignal
+  stop: () => void
+  // Seconds left once the request has been running for a while, null otherwise
+  remainingSeconds: number | null
+}
+
+// Spoken while a slow request is still running
+export function stillWorkingMessage(remainingSeconds: number) {
+  return `Still working. This can take up to ${remainingSeconds} more seconds.`
+}
+
+export function useCallBudget(): CallBudgetHook {
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null)
+  const stopRef = useRef<(() => void) | null>(null)
+
+  const stop = useCallback(() => {
+    stopRef.current?.()
+    stopRef.current = null
+    setRemainingSeconds(null)
+  }, [])
+
+  const start = useCallback(
+    (onStillWorking?: (remainingSeconds: number) => void) => {
+      stop()
+
+      const controller = new AbortController()
+
+      // Give up once the whole budget is spent
+      const timeout = setTimeout(() => {
+        controller.abort(new AIServiceError("upstream_timeout", "The request ran out of time"))
+        stop()
+      }, CLIENT_BUDGET_MS)
+
+      // Meanwhile, report the time left so the page can say it is still working
+      const stopWatching = watchBudget(CLIENT_BUDGET_MS, STILL_WORKING_INTERVAL_MS, (remainingMs) => {
+        const seconds = Math.ceil(remainingMs / 1000)
+        setRemainingSeconds(seconds)
+        onStillWorking?.(seconds)
+      })
+
+      stopRef.current = () => {
+        clearTimeout(timeout)
+        stopWatching()
+      }
+
+      return controller.signal
+    },
+    [stop],
+  )
+
+  // Clean up timers when the component unmounts
+  useEffect(() => stop, [stop])
+
+  return {
+    start,
+    stop,
+    remainingSeconds,
+  }
+}
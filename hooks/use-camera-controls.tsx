@@ -0,0 +1,173 @@
+"use client"
+
+import { useState, useCallback, type RefObject } from "react"
+import {
+  applyResolution,
+  applyTorch,
+  applyZoom,
+  DEFAULT_RESOLUTION,
+  detectCapabilities,
+  NO_CAPABILITIES,
+  nextZoom,
+  videoConstraints,
+  type CameraCapabilities,
+  type CameraControlResult,
+  type FacingMode,
+  type ResolutionPreset,
+} from "@/lib/camera-controls"
+
+interface CameraControlsHook {
+  facingMode: FacingMode
+  resolution: ResolutionPreset
+  torchOn: boolean
+  // Current zoom level, null when the camera cannot zoom
+  zoom: number | null
+  capabilities: CameraCapabilities
+  // Constraints for getUserMedia with the chosen lens and resolution
+  constraints: () => MediaTrackConstraints
+  // Call after a new stream is attached to the video element
+  detect: (stream: MediaStream) => Promise<void>
+  reset: () => void
+  switchLens: (target?: FacingMode) => Promise<CameraControlResult>
+  setTorch: (on: boolean) => Promise<CameraControlResult>
+  zoomBy: (direction: 1 | -1) => Promise<CameraControlResult>
+  setResolution: (resolution: ResolutionPreset) => Promise<CameraControlResult>
+}
+
+// Lens, torch, zoom and resolution of the camera stream shown in `videoRef`
+export function useCameraControls(videoRef: RefObject<HTMLVideoElement | null>): CameraControlsHook {
+  const [facingMode, setFacingMode] = useState<FacingMode>("environment")
+  const [resolution, setResolutionState] = useState<ResolutionPreset>(DEFAULT_RESOLUTION)
+  const [torchOn, setTorchOn] = useState(false)
+  const [zoom, setZoom] = useState<number | null>(null)
+  const [capabilities, setCapabilities] = useState<CameraCapabilities>(NO_CAPABILITIES)
+
+  const currentTrack = useCallback(() => {
+    const stream = videoRef.current?.srcObject as MediaStream | null | undefined
+    return stream?.getVideoTracks()[0] ?? null
+  }, [videoRef])
+
+  const constraints = useCallback(() => videoConstraints(facingMode, resolution), [facingMode, resolution])
+
+  const detect = useCallback(async (stream: MediaStream) => {
+    const track = stream.getVideoTracks()[0]
+    if (!track) return
+
+    const detected = await detectCapabilities(track)
+    setCapabilities(detected)
+    setTorchOn(false)
+    setZoom(detected.zoom ? ((track.getSettings() as { zoom?: number }).zoom ?? detected.zoom.min) : null)
+  }, [])
+
+  const reset = useCallback(() => {
+    setCapabilities(NO_CAPABILITIES)
+    setTorchOn(false)
+    setZoom(null)
+  }, [])
+
+  const switchLens = useCallback(
+    async (target?: FacingMode): Promise<CameraControlResult> => {
+      const video = videoRef.current
+      if (!video || !currentTrack()) return "failed"
+      if (!capabilities.canSwitchLens) return "unsupported"
+
+      const next = target ?? (facingMode === "environment" ? "user" : "environment")
+      if (next === facingMode) return "done"
+
+      try {
+        // Most phones cannot open two cameras at once, so release the current one first
+        ;(video.srcObject as MediaStream).getTracks().forEach((track) => track.stop())
+        const stream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(next, resolution) })
+        video.srcObject = stream
+        setFacingMode(next)
+        await detect(stream)
+        return "done"
+      } catch (error) {
+        console.error("Error switching camera:", error)
+        // Try to get the previous lens back
+        try {
+          const stream = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(facingMode, resolution) })
+          video.srcObject = stream
+          await detect(stream)
+        } catch {
+          video.srcObject = null
+        }
+        return "failed"
+      }
+    },
+    [videoRef, currentTrack, capabilities, facingMode, resolution, detect],
+  )
+
+  const setTorch = useCallback(
+    async (on: boolean): Promise<CameraControlResult> => {
+      const track = currentTrack()
+      if (!track) return "failed"
+      if (!capabilities.torch) return "unsupported"
+
+      try {
+        await applyTorch(track, on)
+        setTorchOn(on)
+        return "done"
+      } catch (error) {
+        console.error("Error switching the torch:", error)
+        return "failed"
+      }
+    },
+    [currentTrack, capabilities],
+  )
+
+  const zoomBy = useCallback(
+    async (direction: 1 | -1): Promise<CameraControlResult> => {
+      const track = currentTrack()
+      if (!track) return "failed"
+      if (!capabilities.zoom || zoom === null) return "unsupported"
+
+      const next = nextZoom(zoom, capabilities.zoom, direction)
+      try {
+        await applyZoom(track, next)
+        setZoom(next)
+        return "done"
+      } catch (error) {
+        console.error("Error zooming:", error)
+        return "failed"
+      }
+    },
+    [currentTrack, capabilities, zoom],
+  )
+
+  const setResolution = useCallback(
+    async (preset: ResolutionPreset): Promise<CameraControlResult> => {
+      // Without a stream the preset is used the next time the camera starts
+      const track = currentTrack()
+      if (!track) {
+        setResolutionState(preset)
+        return "done"
+      }
+
+      try {
+        await applyResolution(track, preset)
+        setResolutionState(preset)
+        return "done"
+      } catch (error) {
+        console.error("Error changing resolution:", error)
+        return error instanceof DOMException && error.name === "OverconstrainedError" ? "unsupported" : "failed"
+      }
+    },
+    [currentTrack],
+  )
+
+  return {
+    facingMode,
+    resolution,
+    torchOn,
+    zoom,
+    capabilities,
+    constraints,
+    detect,
+    reset,
+    switchLens,
+    setTorch,
+    zoomBy,
+    setResolution,
+  }
+}
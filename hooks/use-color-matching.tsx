@@ -0,0 +1,126 @@
+"use client"
+
+import { useRef, useState, type RefObject } from "react"
+import { useToast } from "@/components/ui/use-toast"
+import { useAccessibility } from "@/components/accessibility-provider"
+import { requestColorReport } from "@/lib/analyze-client"
+import { describeMeasuredColors, matchOutfit, measureCenterColors, type ColorItem } from "@/lib/color"
+import type { PendingFrame } from "@/lib/offline-queue"
+
+// Opens the conversation about an item captured in color mode, for follow-up questions
+const COLOR_PROMPT = "What color is this?"
+
+interface ColorMatchingOptions {
+  // Holds the captured frame, the colors in its center are measured on the device
+  canvasRef: RefObject<HTMLCanvasElement | null>
+  speak: (text: string) => void
+  // Shows a result on the page, `local` when it did not come from the AI service
+  showResult: (message: string, local?: boolean) => void
+  rememberPicture: (image: Blob, prompt: string, description: string) => void
+  recordSnapshot: (image: Blob, prompt: string, description: string) => void
+  // Keeps a frame to analyze once the connection returns. Resolves to whether it was saved.
+  queueOfflineFrame: (frame: Omit<PendingFrame, "capturedAt">) => Promise<boolean>
+  // Takes a picture in color mode
+  captureItem: () => void
+  // Turns color mode on if it is not already
+  enableColorMode: () => void
+}
+
+interface ColorMatchingHook {
+  // The last item captured, the next one can be compared with it
+  lastItem: ColorItem | null
+  // Reads the colors of the captured item, and whether it matches the previous one when that was asked for
+  readColors: (image: Blob, signal: AbortSignal) => Promise<void>
+  // Offline, reads only the colors measured on the device and keeps the picture for later
+  readLocalColors: (image: Blob) => Promise<void>
+  // Outfit matching: the next item captured is compared with the last one
+  matchNext: () => void
+}
+
+// Color mode: the model names the item and its colors, checked against the colors measured on the device
+export function useColorMatching({
+  canvasRef,
+  speak,
+  showResult,
+  rememberPicture,
+  recordSnapshot,
+  queueOfflineFrame,
+  captureItem,
+  enableColorMode,
+}: ColorMatchingOptions): ColorMatchingHook {
+  const { toast } = useToast()
+  const { voiceFeedback } = useAccessibility()
+  const [lastItem, setLastItem] = useState<ColorItem | null>(null)
+  // Whether the next item should be compared with the last one
+  const matchNextRef = useRef(false)
+
+  const announce = (message: string, local = false) => {
+    showResult(message, local)
+
+    if (voiceFeedback) {
+      speak(message)
+    }
+  }
+
+  const readColors = async (image: Blob, signal: AbortSignal) => {
+    const measured = canvasRef.current ? measureCenterColors(canvasRef.current) : []
+    const { color, phrase } = await requestColorReport(
+      image,
+      measured.map((entry) => entry.hex),
+      signal,
+    )
+
+    const item = { report: color, measured }
+    const previous = lastItem
+    const compare = matchNextRef.current
+    matchNextRef.current = false
+    setLastItem(item)
+
+    const match = compare && previous ? matchOutfit(previous, item) : null
+    announce(match ? `${phrase} ${match.reason}` : phrase)
+    rememberPicture(image, COLOR_PROMPT, phrase)
+    recordSnapshot(image, COLOR_PROMPT, phrase)
+  }
+
+  // No match is judged offline, the model's reading of the item is needed for that
+  const readLocalColors = async (image: Blob) => {
+    matchNextRef.current = false
+    const measured = canvasRef.current ? measureCenterColors(canvasRef.current) : []
+    const queued = await queueOfflineFrame({
+      image,
+      prompt: COLOR_PROMPT,
+      mode: "color",
+      measuredColors: measured.map((entry) => entry.hex),
+    })
+
+    announce(
+      [
+        `You are offline. ${describeMeasuredColors(measured)}`,
+        queued ? "I saved this picture and will name the colors when the connection returns." : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+      true,
+    )
+  }
+
+  const matchNext = () => {
+    if (!lastItem) {
+      const message = "Capture the first item in color mode, then say does this match with the second one in view."
+      if (voiceFeedback) speak(message)
+      toast({ title: "Outfit matching", description: message })
+      enableColorMode()
+      return
+    }
+
+    matchNextRef.current = true
+    captureItem()
+  }
+
+  return {
+    lastItem,
+    readColors,
+    readLocalColors,
+    matchNext,
+  }
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useState, useCallback, useEffect, useRef } from "react"
+import { nextScanDelay, type ScanTickResult } from "@/lib/continuous-scan"
+
+interface ContinuousScanHook {
+  isRunning: boolean
+  start: () => void
+  stop: () => void
+}
+
+// Runs `scanFrame` repeatedly while started. The next frame is scheduled only after the previous one
+// finished, using the adaptive delay from nextScanDelay, so slow analyses never pile up.
+export function useContinuousScan(intervalMs: number, scanFrame: () => Promise<ScanTickResult>): ContinuousScanHook {
+  const [isRunning, setIsRunning] = useState(false)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const runningRef = useRef(false)
+  const delayRef = useRef(intervalMs)
+
+  // The loop always calls the latest callback and interval
+  const scanFrameRef = useRef(scanFrame)
+  scanFrameRef.current = scanFrame
+  const intervalRef = useRef(intervalMs)
+  intervalRef.current = intervalMs
+
+  const stop = useCallback(() => {
+    runningRef.current = false
+    if (timerRef.current) clearTimeout(timerRef.current)
+    timerRef.current = null
+    setIsRunning(false)
+  }, [])
+
+  const tick = useCallback(async () => {
+    let result: ScanTickResult = { changed: false }
+    try {
+      result = await scanFrameRef.current()
+    } catch (error) {
+      console.error("Error in continuous scan:", error)
+    }
+
+    // Stopped while the frame was being analyzed
+    if (!runningRef.current) return
+
+    delayRef.current = nextScanDelay(delayRef.current, intervalRef.current, result)
+    timerRef.current = setTimeout(tick, delayRef.current)
+  }, [])
+
+  const start = useCallback(() => {
+    if (runningRef.current) return
+    runningRef.current = true
+    delayRef.current = intervalRef.current
+    setIsRunning(true)
+    tick()
+  }, [tick])
+
+  // Stop the loop when the component unmounts
+  useEffect(() => stop, [stop])
+
+  return {
+    isRunning,
+    start,
+    stop,
+  }
+}
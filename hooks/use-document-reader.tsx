@@ -0,0 +1,238 @@
+"use client"
+
+import { useState } from "react"
+import { useToast } from "@/components/ui/use-toast"
+import { useAccessibility } from "@/components/accessibility-provider"
+import { isOfflineError, requestDocumentPage } from "@/lib/analyze-client"
+import {
+  blockAt,
+  describePage,
+  findWord,
+  movePosition,
+  pageConversationText,
+  pageStart,
+  speakableBlock,
+  spellWord,
+  type DocumentPosition,
+} from "@/lib/document-reader"
+import { describeError } from "@/lib/errors"
+import type { DocumentPage } from "@/lib/schemas"
+
+// Opens the conversation about a page read in document mode, for follow-up questions
+const PAGE_PROMPT = "Read all the text on this page."
+
+// Page numbers said as words, speech recognition gives digits for larger ones
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+}
+
+interface DocumentReaderOptions {
+  speak: (text: string) => void
+  enqueue: (text: string) => void
+  stopSpeaking: () => void
+  // Starts guided capture of the next page
+  startGuidance: () => void
+  // Marks the page busy and returns the signal bounding the request, see endRequest
+  beginRequest: () => AbortSignal
+  endRequest: () => void
+  // Shows a result on the page, `local` when it did not come from the AI service
+  showResult: (message: string, local?: boolean) => void
+  // Keeps the page for follow-up questions and in the scan history
+  rememberPicture: (image: Blob, prompt: string, description: string) => void
+  recordSnapshot: (image: Blob, prompt: string, description: string) => void
+}
+
+interface DocumentReaderHook {
+  pages: DocumentPage[]
+  position: DocumentPosition | null
+  // Starts guided capture of a page. Unless adding a page, the previous document is closed first.
+  start: (addPage: boolean) => void
+  // Reads a page and appends it to the document, then reads its first block
+  readPage: (image: Blob | null) => Promise<void>
+  readBlock: (position: DocumentPosition) => void
+  // Closes the document quietly, once another result replaces it
+  close: () => void
+  // Navigation within the document. Returns false when the command is not about the document.
+  handleCommand: (command: string) => boolean
+}
+
+// Document mode: pages read word for word, navigated block by block
+export function useDocumentReader({
+  speak,
+  enqueue,
+  stopSpeaking,
+  startGuidance,
+  beginRequest,
+  endRequest,
+  showResult,
+  rememberPicture,
+  recordSnapshot,
+}: DocumentReaderOptions): DocumentReaderHook {
+  const { toast } = useToast()
+  const { voiceFeedback } = useAccessibility()
+  const [pages, setPages] = useState<DocumentPage[]>([])
+  const [position, setPosition] = useState<DocumentPosition | null>(null)
+
+  const say = (message: string) => {
+    if (voiceFeedback) speak(message)
+  }
+
+  const close = () => {
+    setPages([])
+    setPosition(null)
+  }
+
+  const start = (addPage: boolean) => {
+    if (!addPage) close()
+    startGuidance()
+  }
+
+  const readPage = async (image: Blob | null) => {
+    const signal = beginRequest()
+
+    try {
+      if (!image) {
+        throw new Error("Invalid image data")
+      }
+
+      const page = await requestDocumentPage(image, signal)
+      const next = [...pages, page]
+      const first = pageStart(next, next.length - 1)
+      setPages(next)
+      setPosition(first ?? position)
+
+      const text = page.blocks.map((block) => block.text).join("\n")
+      if (text) {
+        // Follow-up questions start from the page text, cut to fit the conversation limits
+        rememberPicture(image, PAGE_PROMPT, pageConversationText(page))
+        recordSnapshot(image, PAGE_PROMPT, text)
+      }
+
+      const summary = describePage(page, next.length)
+      showResult(summary)
+
+      if (voiceFeedback) {
+        speak(summary)
+        if (first) {
+          enqueue(speakableBlock(page.blocks[0]))
+          enqueue("Say next paragraph to continue, or add page for the next page.")
+        }
+      }
+    } catch (error) {
+      console.error("Error reading document:", error)
+
+      const errorMessage = isOfflineError(error)
+        ? "You are offline. Reading documents needs a connection."
+        : describeError("image", error)
+
+      toast({
+        title: "Reading failed",
+        description: errorMessage,
+        variant: "destructive",
+      })
+
+      showResult(errorMessage)
+      say(errorMessage)
+    } finally {
+      endRequest()
+    }
+  }
+
+  const readBlock = (next: DocumentPosition) => {
+    const block = blockAt(pages, next)
+    if (!block) return
+
+    setPosition(next)
+    const pageChanged = position && position.page !== next.page
+    say(`${pageChanged ? `Page ${next.page + 1}. ` : ""}${speakableBlock(block)}`)
+  }
+
+  const handleCommand = (command: string) => {
+    if (pages.length === 0) return false
+    const current = position ?? pageStart(pages, 0)
+
+    if (/\b(next|previous|last) (paragraph|block|line|item)\b/.test(command) || command === "continue") {
+      const step = command.includes("next") || command === "continue" ? 1 : -1
+      const next = current && movePosition(pages, current, step)
+      if (next) {
+        readBlock(next)
+      } else {
+        say(step > 0 ? "End of the document. Say add page to read another page." : "This is the start of the document.")
+      }
+      return true
+    }
+
+    if (command.includes("repeat")) {
+      if (current) readBlock(current)
+      return true
+    }
+
+    const spellMatch = command.match(/\bspell (?:the word )?(.+)$/)
+    if (spellMatch) {
+      const block = current && blockAt(pages, current)
+      const word = block && findWord(block.text, spellMatch[1])
+      say(word ? `${word}: ${spellWord(word)}` : `I can't find ${spellMatch[1]} in this paragraph.`)
+      return true
+    }
+
+    const pageMatch = command.match(/\b(?:go to|jump to|read) page (\d+|\w+)\b/)
+    if (pageMatch || command.includes("next page") || command.includes("previous page")) {
+      const currentPage = current?.page ?? 0
+      const target = pageMatch
+        ? (Number(pageMatch[1]) || NUMBER_WORDS[pageMatch[1]] || 0) - 1
+        : currentPage + (command.includes("next page") ? 1 : -1)
+      const first = pageStart(pages, target)
+
+      if (first) {
+        setPosition(first)
+        say(`Page ${target + 1}. ${speakableBlock(pages[target].blocks[0])}`)
+      } else {
+        say(
+          target >= 0 && target < pages.length
+            ? `Page ${target + 1} has no text.`
+            : `The document has ${pages.length} page${pages.length === 1 ? "" : "s"}. Say add page to read another.`,
+        )
+      }
+      return true
+    }
+
+    // Reads the rest of the current page without stopping
+    if (/\bread (the )?(whole|entire|rest of the) page\b/.test(command) || command.includes("read all")) {
+      if (!current) return true
+      const blocks = pages[current.page].blocks
+      setPosition({ page: current.page, block: blocks.length - 1 })
+      if (voiceFeedback) {
+        stopSpeaking()
+        blocks.slice(current.block).forEach((block) => enqueue(speakableBlock(block)))
+      }
+      return true
+    }
+
+    if (command.includes("close document") || command.includes("exit document")) {
+      close()
+      say("Document closed.")
+      return true
+    }
+
+    return false
+  }
+
+  return {
+    pages,
+    position,
+    start,
+    readPage,
+    readBlock,
+    close,
+    handleCommand,
+  }
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useState, type RefObject } from "react"
+import { useToast } from "@/components/ui/use-toast"
+import { useAccessibility } from "@/components/accessibility-provider"
+import { useGuidedFraming } from "@/hooks/use-guided-framing"
+import { checkFraming, framingMessage, type FramingTarget } from "@/lib/framing"
+
+interface GuidedCaptureOptions {
+  videoRef: RefObject<HTMLVideoElement | null>
+  // Whether hints may suggest the flashlight, when the camera has one that is off
+  canSuggestTorch: boolean
+  speak: (text: string) => void
+  // Gets the camera ready and stops other loops before guidance starts
+  prepare: () => Promise<void>
+  // Takes the picture once the frame is good
+  onReady: (target: FramingTarget) => void
+}
+
+interface GuidedCaptureHook {
+  isGuiding: boolean
+  target: FramingTarget
+  // The latest hint as shown on screen, null before the first check
+  hintMessage: string | null
+  start: (target: FramingTarget) => Promise<void>
+  // Stops quietly, or with a spoken confirmation when the user asked
+  stop: (spoken?: boolean) => void
+}
+
+// Guided framing on the scan page: spoken hints about the live camera for a scene or a page, then an automatic capture
+export function useGuidedCapture({
+  videoRef,
+  canSuggestTorch,
+  speak,
+  prepare,
+  onReady,
+}: GuidedCaptureOptions): GuidedCaptureHook {
+  const { toast } = useToast()
+  const { voiceFeedback } = useAccessibility()
+  const [target, setTarget] = useState<FramingTarget>("scene")
+
+  const {
+    isGuiding,
+    hint,
+    start: startFraming,
+    stop: stopFraming,
+  } = useGuidedFraming({
+    checkFrame: () => (videoRef.current ? checkFraming(videoRef.current, target) : null),
+    onHint: (hint) => {
+      if (voiceFeedback) {
+        speak(framingMessage(hint, canSuggestTorch))
+      }
+    },
+    onReady: () => {
+      if (navigator.vibrate) {
+        navigator.vibrate(100)
+      }
+      onReady(target)
+    },
+    onTimeout: () => {
+      const message = "I could not get a good picture. Guided capture has stopped."
+      toast({
+        title: "Guided capture stopped",
+        description: message,
+      })
+      if (voiceFeedback) {
+        speak(message)
+      }
+    },
+  })
+
+  const start = async (next: FramingTarget) => {
+    await prepare()
+
+    stopFraming()
+    setTarget(next)
+    startFraming()
+
+    const message =
+      next === "page"
+        ? "Guided capture for a page. Hold the phone above the paper and follow my hints."
+        : "Guided capture. Follow my hints, I will take the picture when it looks good."
+    toast({
+      title: "Guided capture",
+      description: message,
+    })
+
+    if (voiceFeedback) {
+      speak(message)
+    }
+  }
+
+  const stop = (spoken = false) => {
+    const wasGuiding = isGuiding
+    stopFraming()
+
+    if (spoken && wasGuiding && voiceFeedback) {
+      speak("Guided capture stopped.")
+    }
+  }
+
+  return {
+    isGuiding,
+    target,
+    hintMessage: hint ? framingMessage(hint, canSuggestTorch) : null,
+    start,
+    stop,
+  }
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useState, useCallback, useEffect, useRef } from "react"
+import type { FramingHint } from "@/lib/framing"
+
+// How often the live frame is checked
+const CHECK_INTERVAL_MS = 700
+// The same hint is repeated this often while the problem remains
+const HINT_REPEAT_MS = 4000
+// Consecutive good frames needed before capturing, so a frame that is good by chance is not used
+const GOOD_FRAMES_TO_CAPTURE = 2
+// Guidance gives up after this long
+const MAX_GUIDANCE_MS = 60_000
+
+interface GuidedFramingOptions {
+  // Checks the current frame, null while the camera has no picture
+  checkFrame: () => FramingHint | null
+  // Called when the hint changes, and again every few seconds while it stays the same
+  onHint: (hint: FramingHint) => void
+  // Called once the frame has stayed good, guidance has stopped by then
+  onReady: () => void
+  onTimeout: () => void
+}
+
+interface GuidedFramingHook {
+  isGuiding: boolean
+  // The latest hint, for showing on screen
+  hint: FramingHint | null
+  start: () => void
+  stop: () => void
+}
+
+// Checks the live camera repeatedly and reports how to improve the framing until the frame is good
+export function useGuidedFraming(options: GuidedFramingOptions): GuidedFramingHook {
+  const [isGuiding, setIsGuiding] = useState(false)
+  const [hint, setHint] = useState<FramingHint | null>(null)
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  // The loop always calls the latest callbacks
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const stop = useCallback(() => {
+    if (timerRef.current) clearInterval(timerRef.current)
+    timerRef.current = null
+    setIsGuiding(false)
+    setHint(null)
+  }, [])
+
+  const start = useCallback(() => {
+    if (timerRef.current) return
+
+    const startedAt = Date.now()
+    let lastHint: FramingHint | null = null
+    let lastHintAt = 0
+    let goodFrames = 0
+
+    setIsGuiding(true)
+    timerRef.current = setInterval(() => {
+      if (Date.now() - startedAt > MAX_GUIDANCE_MS) {
+        stop()
+        optionsRef.current.onTimeout()
+        return
+      }
+
+      const current = optionsRef.current.checkFrame()
+      if (!current) return
+
+      goodFrames = current === "good" ? goodFrames + 1 : 0
+      if (goodFrames >= GOOD_FRAMES_TO_CAPTURE) {
+        stop()
+        optionsRef.current.onReady()
+        return
+      }
+
+      setHint(current)
+      if (current !== lastHint || Date.now() - lastHintAt > HINT_REPEAT_MS) {
+        lastHint = current
+        lastHintAt = Date.now()
+        optionsRef.current.onHint(current)
+      }
+    }, CHECK_INTERVAL_MS)
+  }, [stop])
+
+  // Stop checking when the component unmounts
+  useEffect(() => stop, [stop])
+
+  return {
+    isGuiding,
+    hint,
+    start,
+    stop,
+  }
+}
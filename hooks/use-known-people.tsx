@@ -0,0 +1,286 @@
+"use client"
+
+import { useEffect, useRef, useState, type RefObject } from "react"
+import { useToast } from "@/components/ui/use-toast"
+import { useAccessibility } from "@/components/accessibility-provider"
+import { canDetectFaces, faceDescriptor, findFaces, isConsistentEnrollment, matchFace } from "@/lib/face-recognition"
+import {
+  ENROLLMENT_PHOTOS,
+  FACE_DETECTION_UNAVAILABLE_MESSAGE,
+  describeConsentRequest,
+  describeKnownPeople,
+  describeRecognizedPeople,
+  getKnownPeopleStore,
+  hasKnownPeopleConsent,
+  parseEnrollName,
+  setKnownPeopleConsent,
+  type KnownPerson,
+} from "@/lib/known-people"
+
+interface KnownPeopleOptions {
+  // Holds the captured frame, faces are found and matched on the device
+  canvasRef: RefObject<HTMLCanvasElement | null>
+  cameraActive: boolean
+  // Draws the live camera frame onto the canvas
+  captureFrame: () => Promise<Blob | null>
+  speak: (text: string) => void
+  // Stops other loops before the enrollment photos are taken
+  prepare: () => void
+}
+
+interface KnownPeopleHook {
+  // People enrolled for recognition, only loaded and used once the user agreed
+  people: KnownPerson[]
+  consent: boolean
+  // Set after mounting, since the server cannot tell whether the browser finds faces
+  faceDetection: boolean
+  isEnrolling: boolean
+  // "Anna is in front of you." for the enrolled people in the frame on the canvas, or null
+  recognize: () => Promise<string | null>
+  grantConsent: () => Promise<void>
+  // Takes a few photos of the person in view and keeps only their face descriptors, under the name
+  enroll: (name: string) => Promise<void>
+  remove: (person: KnownPerson) => Promise<void>
+  // Deletes everyone enrolled and withdraws consent, so enrolling again asks first
+  deleteAll: () => Promise<void>
+  // "remember this person as Anna", "I agree", "who is here", "known people" and "delete all people".
+  // Returns false when the command is not about known people.
+  handleCommand: (command: string) => boolean
+}
+
+// People recognition: faces enrolled with consent and matched on the device, only names are ever spoken
+export function useKnownPeople({
+  canvasRef,
+  cameraActive,
+  captureFrame,
+  speak,
+  prepare,
+}: KnownPeopleOptions): KnownPeopleHook {
+  const { toast } = useToast()
+  const { voiceFeedback } = useAccessibility()
+  const [people, setPeople] = useState<KnownPerson[]>([])
+  const [consent, setConsent] = useState(false)
+  const [faceDetection, setFaceDetection] = useState(false)
+  const [isEnrolling, setIsEnrolling] = useState(false)
+  // A spoken enrollment waiting for consent, and until when a spoken "delete all people" waits for the second one
+  const pendingEnrollNameRef = useRef<string | null>(null)
+  const deleteAllArmedUntilRef = useRef(0)
+
+  useEffect(() => {
+    setFaceDetection(canDetectFaces())
+    if (hasKnownPeopleConsent()) {
+      setConsent(true)
+      getKnownPeopleStore()
+        .getPeople()
+        .then(setPeople)
+        .catch((error) => console.error("Error loading known people:", error))
+    }
+  }, [])
+
+  const recognize = async () => {
+    const canvas = canvasRef.current
+    if (!consent || people.length === 0 || !canvas || !canDetectFaces()) return null
+
+    try {
+      const names = new Set<string>()
+      for (const face of await findFaces(canvas)) {
+        const descriptor = faceDescriptor(canvas, face)
+        const person = descriptor && matchFace(descriptor, people)
+        if (person) names.add(person.name)
+      }
+      return describeRecognizedPeople([...names])
+    } catch (error) {
+      console.warn("Error recognizing people:", error)
+      return null
+    }
+  }
+
+  // Answers "who is here" from the camera alone, without calling the server
+  const announceRecognized = async () => {
+    if (!canDetectFaces()) {
+      speak(FACE_DETECTION_UNAVAILABLE_MESSAGE)
+      return
+    }
+    if (!cameraActive) {
+      speak("Start the camera first.")
+      return
+    }
+
+    await captureFrame()
+    const recognized = await recognize()
+    speak(recognized ?? (people.length ? "I don't recognize anyone here." : describeKnownPeople(people)))
+  }
+
+  const grantConsent = async () => {
+    setKnownPeopleConsent(true)
+    setConsent(true)
+
+    const name = pendingEnrollNameRef.current
+    pendingEnrollNameRef.current = null
+    if (name) {
+      enroll(name)
+    } else if (voiceFeedback) {
+      speak("People recognition is on. Point the camera at a person and say remember this person as, then their name.")
+    }
+
+    try {
+      setPeople(await getKnownPeopleStore().getPeople())
+    } catch (error) {
+      console.error("Error loading known people:", error)
+    }
+  }
+
+  const enroll = async (name: string) => {
+    if (!canDetectFaces()) {
+      speak(FACE_DETECTION_UNAVAILABLE_MESSAGE)
+      return
+    }
+
+    // Read from storage, since consent may have been given in this same update
+    if (!hasKnownPeopleConsent()) {
+      pendingEnrollNameRef.current = name
+      speak(describeConsentRequest())
+      return
+    }
+
+    if (!cameraActive) {
+      speak(`Start the camera and point it at ${name}'s face, then try again.`)
+      return
+    }
+    if (isEnrolling) return
+
+    setIsEnrolling(true)
+    prepare()
+    speak(`Hold the camera on ${name}'s face. Taking ${ENROLLMENT_PHOTOS} photos.`)
+
+    try {
+      const descriptors: number[][] = []
+      for (let photo = 0; photo < ENROLLMENT_PHOTOS; photo++) {
+        await new Promise((resolve) => setTimeout(resolve, 1000))
+        await captureFrame()
+        const canvas = canvasRef.current
+        if (!canvas) break
+
+        // The largest face is the one the camera is pointed at
+        const [face] = (await findFaces(canvas)).sort((a, b) => b.width * b.height - a.width * a.height)
+        const descriptor = face && faceDescriptor(canvas, face)
+        if (descriptor) descriptors.push(descriptor)
+      }
+
+      if (descriptors.length < ENROLLMENT_PHOTOS) {
+        speak(
+          `I could not see a face clearly, so ${name} was not enrolled. Try again in good light, closer to the face.`,
+        )
+        return
+      }
+      if (!isConsistentEnrollment(descriptors)) {
+        speak(
+          `The photos did not all show the same face, so ${name} was not enrolled. Keep the camera on ${name} only.`,
+        )
+        return
+      }
+
+      const store = getKnownPeopleStore()
+      const saved = await store.savePerson({ name, descriptors, enrolledAt: Date.now() })
+      setPeople(await store.getPeople())
+
+      const message = `${saved.name} enrolled. I will say when ${saved.name} is in front of you.`
+      toast({ title: "Person enrolled", description: message })
+      if (voiceFeedback) {
+        speak(message)
+      }
+    } catch (error) {
+      console.error("Error enrolling person:", error)
+      speak(`I could not enroll ${name}.`)
+    } finally {
+      setIsEnrolling(false)
+    }
+  }
+
+  const remove = async (person: KnownPerson) => {
+    try {
+      await getKnownPeopleStore().deletePerson(person.id)
+      setPeople((current) => current.filter((item) => item.id !== person.id))
+      if (voiceFeedback) {
+        speak(`Deleted ${person.name}.`)
+      }
+    } catch (error) {
+      console.error("Error deleting person:", error)
+    }
+  }
+
+  const deleteAll = async () => {
+    try {
+      await getKnownPeopleStore().deleteAll()
+      setPeople([])
+      setKnownPeopleConsent(false)
+      setConsent(false)
+
+      const message = "All known people were deleted and people recognition is off."
+      toast({ title: "Known people deleted", description: message })
+      if (voiceFeedback) {
+        speak(message)
+      }
+    } catch (error) {
+      console.error("Error deleting known people:", error)
+      speak("I could not delete the known people. Please try again.")
+    }
+  }
+
+  // Spoken delete-all needs to be said twice, like the emergency button is pressed twice
+  const deleteAllSpoken = () => {
+    if (Date.now() < deleteAllArmedUntilRef.current) {
+      deleteAllArmedUntilRef.current = 0
+      deleteAll()
+      return
+    }
+
+    deleteAllArmedUntilRef.current = Date.now() + 15_000
+    speak(
+      "This deletes everyone you enrolled and turns people recognition off. Say delete all people again to confirm.",
+    )
+  }
+
+  const handleCommand = (command: string) => {
+    if (/\b(delete|forget|remove) (all|every) (known )?(people|persons|faces)\b|\bforget everyone\b/.test(command)) {
+      deleteAllSpoken()
+      return true
+    }
+
+    if (pendingEnrollNameRef.current && /\bi agree\b/.test(command)) {
+      grantConsent()
+      return true
+    }
+
+    const enrollName = parseEnrollName(command)
+    if (enrollName) {
+      enroll(enrollName)
+      return true
+    }
+
+    if (consent && /\bwho('s| is) (here|this|in front of me)\b/.test(command)) {
+      announceRecognized()
+      return true
+    }
+
+    if (/\b(known|enrolled) people\b/.test(command)) {
+      speak(consent ? describeKnownPeople(people) : describeConsentRequest())
+      return true
+    }
+
+    return false
+  }
+
+  return {
+    people,
+    consent,
+    faceDetection,
+    isEnrolling,
+    recognize,
+    grantConsent,
+    enroll,
+    remove,
+    deleteAll,
+    handleCommand,
+  }
+}
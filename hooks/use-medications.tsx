@@ -0,0 +1,159 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useToast } from "@/components/ui/use-toast"
+import { useAccessibility } from "@/components/accessibility-provider"
+import { requestMedicationLabel } from "@/lib/analyze-client"
+import { describeListCheck, describeMedicationList, findSavedMedication, medicationName } from "@/lib/medication"
+import { deleteMedication, getMedications, saveMedication, type SavedMedication } from "@/lib/medication-list"
+import type { MedicationLabel } from "@/lib/schemas"
+
+// Opens the conversation about a label read in medication mode, for follow-up questions
+export const MEDICATION_PROMPT = "Read this medication label."
+
+interface MedicationsOptions {
+  speak: (text: string) => void
+  showResult: (message: string, local?: boolean) => void
+  rememberPicture: (image: Blob, prompt: string, description: string) => void
+  recordSnapshot: (image: Blob, prompt: string, description: string) => void
+}
+
+interface MedicationsHook {
+  // The user's saved medications
+  medications: SavedMedication[]
+  // The last label read clearly enough to save, and what the user typed it is for
+  current: MedicationLabel | null
+  purpose: string
+  setPurpose: (purpose: string) => void
+  // Reads a label, after saying whether it is one of the user's medications
+  readLabel: (image: Blob, signal: AbortSignal) => Promise<void>
+  // Reads a label captured while offline, and returns the phrase to announce
+  readQueuedLabel: (image: Blob) => Promise<string>
+  forgetCurrent: () => void
+  // Saves the last label read, with what it is for when the user said so
+  saveCurrent: (purpose?: string) => Promise<void>
+  remove: (medication: SavedMedication) => Promise<void>
+  // "save this medication for blood pressure", "remove this medication" and "my medications".
+  // Returns false when the command is not about the list.
+  handleCommand: (command: string) => boolean
+}
+
+// Medication mode: labels read by the model and checked against the list kept on this device
+export function useMedications({
+  speak,
+  showResult,
+  rememberPicture,
+  recordSnapshot,
+}: MedicationsOptions): MedicationsHook {
+  const { toast } = useToast()
+  const { voiceFeedback } = useAccessibility()
+  const [medications, setMedications] = useState<SavedMedication[]>([])
+  const [current, setCurrent] = useState<MedicationLabel | null>(null)
+  const [purpose, setPurpose] = useState("")
+
+  useEffect(() => {
+    getMedications()
+      .then(setMedications)
+      .catch((error) => console.error("Error loading medications:", error))
+  }, [])
+
+  const readLabel = async (image: Blob, signal: AbortSignal) => {
+    const { medication, phrase } = await requestMedicationLabel(image, signal)
+    const check = describeListCheck(medication, medications)
+    const message = check ? `${check} ${phrase}` : phrase
+
+    setCurrent(medication.legible && medication.name ? medication : null)
+    setPurpose("")
+    showResult(message)
+
+    if (voiceFeedback) {
+      speak(message)
+    }
+
+    rememberPicture(image, MEDICATION_PROMPT, message)
+    recordSnapshot(image, MEDICATION_PROMPT, message)
+  }
+
+  const readQueuedLabel = async (image: Blob) => {
+    const { medication, phrase } = await requestMedicationLabel(image)
+    const check = describeListCheck(medication, medications)
+    return check ? `${check} ${phrase}` : phrase
+  }
+
+  const saveCurrent = async (purposeText?: string) => {
+    if (!current) {
+      speak("Read a medication label first, then say save this medication.")
+      return
+    }
+
+    try {
+      const saved = await saveMedication(current, purposeText?.trim() || null)
+      setMedications(await getMedications())
+      setPurpose("")
+
+      const message = `Saved ${medicationName(saved)}${saved.purpose ? ` for ${saved.purpose}` : ""} to your medications.`
+      toast({ title: "Medication saved", description: message })
+      if (voiceFeedback) {
+        speak(message)
+      }
+    } catch (error) {
+      console.error("Error saving medication:", error)
+      speak("I could not save this medication.")
+    }
+  }
+
+  const remove = async (medication: SavedMedication) => {
+    try {
+      await deleteMedication(medication.id)
+      setMedications((saved) => saved.filter((item) => item.id !== medication.id))
+      if (voiceFeedback) {
+        speak(`Removed ${medicationName(medication)} from your medications.`)
+      }
+    } catch (error) {
+      console.error("Error removing medication:", error)
+    }
+  }
+
+  // Removes the saved entry matching the last label read
+  const removeCurrent = () => {
+    const saved = current ? findSavedMedication(current, medications) : undefined
+    if (!saved) {
+      speak("This medication is not on your list.")
+      return
+    }
+    remove(saved)
+  }
+
+  const handleCommand = (command: string) => {
+    const saveMatch = command.match(/\bsave (this |the )?(medicine|medication)(?: (?:for|as) (.+))?/)
+    if (saveMatch) {
+      saveCurrent(saveMatch[3]?.replace(/ medication$/, ""))
+      return true
+    }
+
+    if (/\b(remove|delete) (this |the )?(medicine|medication)\b/.test(command)) {
+      removeCurrent()
+      return true
+    }
+
+    if (/\b(my|list) (medicines|medications)\b/.test(command)) {
+      speak(describeMedicationList(medications))
+      return true
+    }
+
+    return false
+  }
+
+  return {
+    medications,
+    current,
+    purpose,
+    setPurpose,
+    readLabel,
+    readQueuedLabel,
+    forgetCurrent: () => setCurrent(null),
+    saveCurrent,
+    remove,
+    handleCommand,
+  }
+}
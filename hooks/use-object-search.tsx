@@ -0,0 +1,200 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { useToast } from "@/components/ui/use-toast"
+import { useAccessibility } from "@/components/accessibility-provider"
+import { useContinuousScan } from "@/hooks/use-continuous-scan"
+import { isOfflineError, requestObjectLocation } from "@/lib/analyze-client"
+import { playTone } from "@/lib/audio-cues"
+import { CLIENT_BUDGET_MS } from "@/lib/call-policy"
+import { MAX_SCAN_FAILURES, type ScanTickResult } from "@/lib/continuous-scan"
+import { AIServiceError, describeError } from "@/lib/errors"
+import {
+  describeLocation,
+  guidanceTone,
+  guidanceVibration,
+  isObjectReached,
+  MAX_SEARCH_MS,
+  mirrorLocation,
+  parseSearchTarget,
+  SEARCH_INTERVAL_MS,
+} from "@/lib/object-search"
+
+interface ObjectSearchOptions {
+  // Draws the live camera frame and returns it as a JPEG, null when the camera is not ready
+  captureFrame: () => Promise<Blob | null>
+  // A picture the user asked for is being analyzed, frames are skipped meanwhile
+  isBusy: boolean
+  // The front camera shows a mirrored view, so left and right are swapped
+  mirrored: boolean
+  speak: (text: string) => void
+  showResult: (message: string, local?: boolean) => void
+  onOffline: () => void
+  // Gets the camera ready and stops other loops before the search starts
+  prepare: () => Promise<void>
+  // Whether a picture is open for follow-up questions, "where is the door" is then asked about it
+  hasPictureConversation: () => boolean
+}
+
+interface ObjectSearchHook {
+  // The object being looked for, null when not searching
+  target: string | null
+  // What the user typed in the search box
+  input: string
+  setInput: (input: string) => void
+  start: (target: string) => Promise<void>
+  // Stops with a message, spoken unless the search is stopped quietly by another mode
+  stop: (message: string, spoken?: boolean) => void
+  // "find my keys", "where is the door", and "stop searching" or "found it".
+  // Returns false when the command is not about a search.
+  handleCommand: (command: string) => boolean
+}
+
+// Search mode: a loop of frames, each saying whether and where the object is, until it is reached
+export function useObjectSearch({
+  captureFrame,
+  isBusy,
+  mirrored,
+  speak,
+  showResult,
+  onOffline,
+  prepare,
+  hasPictureConversation,
+}: ObjectSearchOptions): ObjectSearchHook {
+  const { toast } = useToast()
+  const { voiceFeedback, hapticFeedback } = useAccessibility()
+  // The object being looked for, also kept in a ref so a frame finishing after a stop is ignored
+  const [target, setTarget] = useState<string | null>(null)
+  const [input, setInput] = useState("")
+  const targetRef = useRef<string | null>(null)
+  const startedAtRef = useRef(0)
+  const failuresRef = useRef(0)
+  // Last guidance spoken, so the same direction is not repeated every frame
+  const lastPhraseRef = useRef("")
+
+  // Reuses the scan loop at a fixed, faster pace
+  const { start: startLoop, stop: stopLoop } = useContinuousScan(SEARCH_INTERVAL_MS, () => searchFrame())
+
+  // One frame of the search. Guidance is a tone and vibration every frame, and words when the direction changes.
+  const searchFrame = async (): Promise<ScanTickResult> => {
+    const current = targetRef.current
+    if (!current) return { changed: false }
+
+    if (Date.now() - startedAtRef.current > MAX_SEARCH_MS) {
+      stop(`I could not find ${current}. Search stopped.`)
+      return { changed: false }
+    }
+
+    // Leave room for a picture the user asked for
+    if (isBusy) return { changed: true }
+
+    const image = await captureFrame()
+    if (!image) return { changed: true }
+
+    try {
+      const { location: seen } = await requestObjectLocation(image, current, AbortSignal.timeout(CLIENT_BUDGET_MS))
+      failuresRef.current = 0
+
+      // Stopped, or searching for something else, while the frame was analyzed
+      if (targetRef.current !== current) return { changed: false }
+
+      const location = mirrored ? mirrorLocation(seen) : seen
+      const phrase = describeLocation(current, location)
+
+      const tone = guidanceTone(location)
+      if (tone) playTone(tone)
+      const pattern = guidanceVibration(location)
+      if (pattern && hapticFeedback && navigator.vibrate) {
+        navigator.vibrate(pattern)
+      }
+
+      showResult(phrase)
+
+      if (isObjectReached(location)) {
+        stop(phrase)
+        return { changed: false }
+      }
+
+      if (phrase !== lastPhraseRef.current) {
+        lastPhraseRef.current = phrase
+        if (voiceFeedback) {
+          speak(phrase)
+        }
+      }
+      return { changed: true }
+    } catch (error) {
+      console.error("Error in object search:", error)
+
+      if (isOfflineError(error)) {
+        onOffline()
+        stop("You are offline, so the search has stopped.")
+        return { changed: false }
+      }
+
+      if (error instanceof AIServiceError && error.code === "rate_limited") {
+        return { changed: true, retryAfterMs: (error.retryAfterSeconds ?? 0) * 1000 }
+      }
+
+      failuresRef.current += 1
+      if (failuresRef.current >= MAX_SCAN_FAILURES) {
+        stop(`${describeError("image", error)} Search stopped.`)
+      }
+      return { changed: true }
+    }
+  }
+
+  const start = async (next: string) => {
+    await prepare()
+    stopLoop()
+
+    targetRef.current = next
+    startedAtRef.current = Date.now()
+    failuresRef.current = 0
+    lastPhraseRef.current = ""
+    setTarget(next)
+    setInput("")
+
+    const message = `Looking for ${next}. Move the phone slowly from side to side. Say stop searching to stop.`
+    toast({ title: "Search", description: message })
+    if (voiceFeedback) {
+      speak(message)
+    }
+
+    startLoop()
+  }
+
+  const stop = (message: string, spoken = true) => {
+    stopLoop()
+    targetRef.current = null
+    setTarget(null)
+
+    toast({ title: "Search", description: message })
+    if (spoken && voiceFeedback) {
+      speak(message)
+    }
+  }
+
+  const handleCommand = (command: string) => {
+    if (targetRef.current && /\bstop (searching|looking)\b|\bcancel (the )?search\b|\bfound it\b/.test(command)) {
+      stop("Search stopped.")
+      return true
+    }
+
+    const requested = parseSearchTarget(command, !hasPictureConversation())
+    if (requested) {
+      start(requested)
+      return true
+    }
+
+    return false
+  }
+
+  return {
+    target,
+    input,
+    setInput,
+    start,
+    stop,
+    handleCommand,
+  }
+}
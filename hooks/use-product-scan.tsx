@@ -0,0 +1,104 @@
+"use client"
+
+import { useState, type RefObject } from "react"
+import { useAccessibility } from "@/components/accessibility-provider"
+import { isOfflineError, requestProduct } from "@/lib/analyze-client"
+import { canReadQrCodes, detectCodes, productCode } from "@/lib/barcode"
+import { describeProduct, describeQrCode, describeUnknownProduct } from "@/lib/products"
+
+// Opens the conversation about a code read in product mode, for follow-up questions
+const PRODUCT_PROMPT = "What product is this?"
+
+const NO_CODE_MESSAGE = "I can't find a barcode. Turn the package slowly and try again with the code facing the camera."
+
+interface ProductScanOptions {
+  // Holds the captured frame, codes are decoded from it on the device
+  canvasRef: RefObject<HTMLCanvasElement | null>
+  speak: (text: string) => void
+  showResult: (message: string, local?: boolean) => void
+  rememberPicture: (image: Blob, prompt: string, description: string) => void
+  recordSnapshot: (image: Blob, prompt: string, description: string) => void
+}
+
+interface ProductScanHook {
+  // Link read from a QR code, only opened when the user asks after hearing the warning
+  pendingLink: string | null
+  // Reads the codes in the captured frame and looks up the product
+  scanCodes: (image: Blob, signal: AbortSignal) => Promise<void>
+  // Opens the link of the last QR code, whose warning has already been read out
+  openPendingLink: () => void
+  clearPendingLink: () => void
+}
+
+// Product mode: codes are decoded on the device from the captured frame, and only a product number is sent
+export function useProductScan({
+  canvasRef,
+  speak,
+  showResult,
+  rememberPicture,
+  recordSnapshot,
+}: ProductScanOptions): ProductScanHook {
+  const { voiceFeedback } = useAccessibility()
+  const [pendingLink, setPendingLink] = useState<string | null>(null)
+
+  // The barcode can still be read out offline, only the catalog needs a connection
+  const lookUpProduct = async (code: string, signal: AbortSignal) => {
+    try {
+      const product = await requestProduct(code, signal)
+      return product ? describeProduct(product) : describeUnknownProduct(code)
+    } catch (error) {
+      if (!isOfflineError(error)) throw error
+      return `${describeUnknownProduct(code).split(".")[0]}. You are offline, so I cannot look up the product.`
+    }
+  }
+
+  const scanCodes = async (image: Blob, signal: AbortSignal) => {
+    const codes = canvasRef.current ? await detectCodes(canvasRef.current) : []
+    const code = codes[0]
+
+    let message = canReadQrCodes()
+      ? NO_CODE_MESSAGE
+      : `${NO_CODE_MESSAGE} This browser can only read product barcodes, not QR codes.`
+    let link: string | null = null
+
+    if (code?.format === "qr_code") {
+      ;({ message, link } = describeQrCode(code.value))
+    } else if (code) {
+      const number = productCode(code)
+      message = number ? await lookUpProduct(number, signal) : `Barcode: ${code.value}.`
+    }
+
+    if (codes.length > 1) {
+      message += ` There are ${codes.length} codes in view, cover the others to read them one at a time.`
+    }
+
+    setPendingLink(link)
+    showResult(message)
+
+    if (code) {
+      rememberPicture(image, PRODUCT_PROMPT, message)
+      recordSnapshot(image, PRODUCT_PROMPT, message)
+    }
+
+    if (voiceFeedback) {
+      speak(message)
+    }
+  }
+
+  const openPendingLink = () => {
+    if (!pendingLink) {
+      if (voiceFeedback) speak("There is no link to open. Read a QR code first.")
+      return
+    }
+
+    window.open(pendingLink, "_blank", "noopener,noreferrer")
+    setPendingLink(null)
+  }
+
+  return {
+    pendingLink,
+    scanCodes,
+    openPendingLink,
+    clearPendingLink: () => setPendingLink(null),
+  }
+}
@@ -4,6 +4,7 @@ import { useState, useCallback, useEffect } from "react"
 
 interface SpeechSynthesisHook {
   speak: (text: string) => void
+  enqueue: (text: string) => void
   stop: () => void
   isSpeaking: boolean
   isPaused: boolean
@@ -37,50 +38,74 @@ export function useSpeechSynthesis(): SpeechSynthesisHook {
     }
   }, [])
 
-  const speak = useCallback((text: string) => {
-    if (typeof window !== "undefined" && window.speechSynthesis) {
-      // Cancel any ongoing speech
-      window.speechSynthesis.cancel()
-
-      // Create a new utterance
-      const newUtterance = new SpeechSynthesisUtterance(text)
+  // Build an utterance with our preferred voice and state handlers
+  const createUtterance = useCallback((text: string) => {
+    const newUtterance = new SpeechSynthesisUtterance(text)
 
-      // Get available voices
-      const voices = window.speechSynthesis.getVoices()
+    // Get available voices
+    const voices = window.speechSynthesis.getVoices()
 
-      // Try to find a good English voice
-      const englishVoice =
-        voices.find((voice) => voice.lang.includes("en") && voice.name.includes("Female")) ||
-        voices.find((voice) => voice.lang.includes("en"))
+    // Try to find a good English voice
+    const englishVoice =
+      voices.find((voice) => voice.lang.includes("en") && voice.name.includes("Female")) ||
+      voices.find((voice) => voice.lang.includes("en"))
 
-      if (englishVoice) {
-        newUtterance.voice = englishVoice
-      }
+    if (englishVoice) {
+      newUtterance.voice = englishVoice
+    }
 
-      // Set properties
-      newUtterance.rate = 1.0
-      newUtterance.pitch = 1.0
-      newUtterance.volume = 1.0
+    // Set properties
+    newUtterance.rate = 1.0
+    newUtterance.pitch = 1.0
+    newUtterance.volume = 1.0
 
-      // Set up event handlers
-      newUtterance.onstart = () => setIsSpeaking(true)
-      newUtterance.onend = () => {
+    // Set up event handlers
+    newUtterance.onstart = () => setIsSpeaking(true)
+    newUtterance.onend = () => {
+      // Stay in the speaking state while queued utterances are still waiting
+      if (!window.speechSynthesis.pending) {
         setIsSpeaking(false)
         setIsPaused(false)
       }
-      newUtterance.onerror = () => {
-        setIsSpeaking(false)
-        setIsPaused(false)
-      }
-
-      // Store the utterance
-      setUtterance(newUtterance)
-
-      // Speak
-      window.speechSynthesis.speak(newUtterance)
     }
+    newUtterance.onerror = () => {
+      setIsSpeaking(false)
+      setIsPaused(false)
+    }
+
+    return newUtterance
   }, [])
 
+  const speak = useCallback(
+    (text: string) => {
+      if (typeof window !== "undefined" && window.speechSynthesis) {
+        // Cancel any ongoing speech
+        window.speechSynthesis.cancel()
+
+        const newUtterance = createUtterance(text)
+
+        // Store the utterance
+        setUtterance(newUtterance)
+
+        // Speak
+        window.speechSynthesis.speak(newUtterance)
+      }
+    },
+    [createUtterance],
+  )
+
+  // Queue text after whatever is currently being spoken, e.g. sentences of a streamed reply
+  const enqueue = useCallback(
+    (text: string) => {
+      if (typeof window !== "undefined" && window.speechSynthesis && text.trim()) {
+        const newUtterance = createUtterance(text)
+        setUtterance(newUtterance)
+        window.speechSynthesis.speak(newUtterance)
+      }
+    },
+    [createUtterance],
+  )
+
   const stop = useCallback(() => {
     if (typeof window !== "undefined" && window.speechSynthesis) {
       window.speechSynthesis.cancel()
@@ -108,6 +133,7 @@ export function useSpeechSynthesis(): SpeechSynthesisHook {
 
   return {
     speak,
+    enqueue,
     stop,
     isSpeaking,
     isPaused,
@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { isOfflineError, requestProduct } from "@/lib/analyze-client"
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("isOfflineError", () => {
+  it("is true when the request could not reach the server", async () => {
+    vi.stubGlobal("fetch", () => Promise.reject(new TypeError("Failed to fetch")))
+
+    const error = await requestProduct("4006381333931").catch((error: unknown) => error)
+    expect(isOfflineError(error)).toBe(true)
+  })
+
+  it("is false for a bug in the page and for the page's own deadline", async () => {
+    expect(isOfflineError(new TypeError("Cannot read properties of undefined"))).toBe(false)
+
+    vi.stubGlobal("fetch", () => Promise.reject(new DOMException("The operation timed out.", "TimeoutError")))
+    const error = await requestProduct("4006381333931").catch((error: unknown) => error)
+    expect(isOfflineError(error)).toBe(false)
+  })
+})
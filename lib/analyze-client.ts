@@ -0,0 +1,233 @@
+import { assertNotRateLimited, getClientSessionId, noteRateLimit, SESSION_HEADER } from "@/lib/client-session"
+import { AIServiceError, errorFromResponse } from "@/lib/errors"
+import type { z } from "zod"
+import {
+  analyzeImageResponseSchema,
+  chatResponseSchema,
+  documentPageSchema,
+  imageChatFieldsSchema,
+  imageUploadFieldsSchema,
+  MAX_IMAGE_BYTES,
+  productLookupRequestSchema,
+  productLookupResponseSchema,
+  type ChatMessage,
+  type ColorReport,
+  type CurrencyNote,
+  type DocumentPage,
+  type HazardReport,
+  type MedicationLabel,
+  type ObjectLocation,
+  type Product,
+} from "@/lib/schemas"
+
+// Client helpers for calling the image and product endpoints from the scan page
+
+export const DEFAULT_SCAN_PROMPT =
+  "Describe this scene in detail for a visually impaired person. Focus on any obstacles, people, or important elements."
+
+// Continuous mode analyzes a frame every few seconds while the user walks, so replies must stay short
+export const CONTINUOUS_SCAN_PROMPT =
+  "You are helping a visually impaired person who is walking with the camera held up. In two or three short sentences, say what is directly ahead: obstacles, steps, people, doors, signs and anything in the path. Do not describe colors or decoration."
+
+// Thrown when a request could not reach the server at all: no connection, or it dropped mid-request
+class NetworkError extends Error {
+  constructor(options: { cause?: unknown }) {
+    super("Could not reach the server", options)
+    this.name = "NetworkError"
+  }
+}
+
+// fetch, with a failed connection thrown as NetworkError so it cannot be confused with a bug in the page
+async function fetchFromServer(url: string, init: RequestInit) {
+  try {
+    return await fetch(url, init)
+  } catch (error) {
+    // Aborts come from the page's own deadline, the server may well be reachable
+    if (error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")) throw error
+    throw new NetworkError({ cause: error })
+  }
+}
+
+// Throws the first problem the server would report for these fields, before anything is uploaded
+function validateFields<T extends z.ZodTypeAny>(schema: T, fields: z.input<T>): z.output<T> {
+  const parsed = schema.safeParse(fields)
+  if (!parsed.success) {
+    throw new AIServiceError("invalid_input", parsed.error.issues[0].message)
+  }
+  return parsed.data
+}
+
+// Uploads a frame as multipart form data, a third smaller than base64 in JSON, and returns the parsed reply.
+// Error responses are thrown as AIServiceError, a failed connection as NetworkError.
+async function postImage<T extends z.ZodTypeAny>(
+  route: "analyze-image" | "image-chat" | "read-document",
+  image: Blob,
+  fields: Record<string, string | undefined>,
+  responseSchema: T,
+  signal?: AbortSignal,
+): Promise<z.output<T>> {
+  if (image.size > MAX_IMAGE_BYTES) {
+    throw new AIServiceError("invalid_input", `Images can be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`)
+  }
+
+  assertNotRateLimited(route)
+
+  const body = new FormData()
+  body.append("image", image, "frame.jpg")
+  for (const [name, value] of Object.entries(fields)) {
+    if (value) body.append(name, value)
+  }
+
+  // The browser sets the multipart Content-Type with its boundary
+  const response = await fetchFromServer(`/api/${route}`, {
+    signal,
+    method: "POST",
+    headers: {
+      [SESSION_HEADER]: getClientSessionId(),
+    },
+    body,
+  })
+
+  if (!response.ok) {
+    const error = await errorFromResponse(response)
+    noteRateLimit(route, error)
+    throw error
+  }
+
+  const parsed = responseSchema.safeParse(await response.json())
+  if (!parsed.success) {
+    throw new AIServiceError("upstream_error", "Unexpected response from the image analysis service")
+  }
+
+  return parsed.data
+}
+
+// Describes a frame in prose, guided by the prompt
+export async function requestImageAnalysis(image: Blob, prompt: string, signal?: AbortSignal): Promise<string> {
+  const fields = validateFields(imageUploadFieldsSchema, { prompt })
+  const { analysis } = await postImage(
+    "analyze-image",
+    image,
+    { prompt: fields.prompt, mode: fields.mode },
+    analyzeImageResponseSchema,
+    signal,
+  )
+  return analysis
+}
+
+// Hazard mode: the structured obstacle report for a frame
+export async function requestHazardReport(image: Blob, signal?: AbortSignal): Promise<HazardReport> {
+  const { mode } = validateFields(imageUploadFieldsSchema, { mode: "hazard" })
+  const { analysis, hazards } = await postImage("analyze-image", image, { mode }, analyzeImageResponseSchema, signal)
+  return { hazards: hazards ?? [], summary: analysis }
+}
+
+// Currency mode: the notes found and the phrase to speak, which never states an uncertain value
+export async function requestCurrencyReport(
+  image: Blob,
+  signal?: AbortSignal,
+): Promise<{ notes: CurrencyNote[]; phrase: string }> {
+  const { mode } = validateFields(imageUploadFieldsSchema, { mode: "currency" })
+  const { analysis, notes } = await postImage("analyze-image", image, { mode }, analyzeImageResponseSchema, signal)
+  return { notes: notes ?? [], phrase: analysis }
+}
+
+// Color mode: the item in the center of the frame and its colors, with the colors measured on the device
+export async function requestColorReport(
+  image: Blob,
+  measuredColors: string[],
+  signal?: AbortSignal,
+): Promise<{ color: ColorReport; phrase: string }> {
+  const fields = validateFields(imageUploadFieldsSchema, { mode: "color", measuredColors })
+  const { analysis, color } = await postImage(
+    "analyze-image",
+    image,
+    { mode: fields.mode, measuredColors: JSON.stringify(fields.measuredColors) },
+    analyzeImageResponseSchema,
+    signal,
+  )
+  if (!color) {
+    throw new AIServiceError("upstream_error", "Unexpected response from the image analysis service")
+  }
+  return { color, phrase: analysis }
+}
+
+// Medication mode: the structured label, and the phrase to speak before it is checked against the user's list
+export async function requestMedicationLabel(
+  image: Blob,
+  signal?: AbortSignal,
+): Promise<{ medication: MedicationLabel; phrase: string }> {
+  const { mode } = validateFields(imageUploadFieldsSchema, { mode: "medication" })
+  const { analysis, medication } = await postImage("analyze-image", image, { mode }, analyzeImageResponseSchema, signal)
+  if (!medication) {
+    throw new AIServiceError("upstream_error", "Unexpected response from the image analysis service")
+  }
+  return { medication, phrase: analysis }
+}
+
+// Search mode: whether the target is in the frame, and where
+export async function requestObjectLocation(
+  image: Blob,
+  target: string,
+  signal?: AbortSignal,
+): Promise<{ location: ObjectLocation; phrase: string }> {
+  const fields = validateFields(imageUploadFieldsSchema, { mode: "search", target })
+  const { analysis, location } = await postImage(
+    "analyze-image",
+    image,
+    { mode: fields.mode, target: fields.target },
+    analyzeImageResponseSchema,
+    signal,
+  )
+  if (!location) {
+    throw new AIServiceError("upstream_error", "Unexpected response from the image analysis service")
+  }
+  return { location, phrase: analysis }
+}
+
+// Document mode: the full text of one page, in reading order
+export function requestDocumentPage(image: Blob, signal?: AbortSignal): Promise<DocumentPage> {
+  return postImage("read-document", image, {}, documentPageSchema, signal)
+}
+
+// Follow-up question about a frame analyzed earlier. The messages are the whole conversation about it,
+// ending with the new question, and the answer is returned.
+export async function requestImageChat(image: Blob, messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+  const fields = validateFields(imageChatFieldsSchema, { messages })
+  const { response } = await postImage(
+    "image-chat",
+    image,
+    { messages: JSON.stringify(fields.messages) },
+    chatResponseSchema,
+    signal,
+  )
+  return response
+}
+
+// Product mode: looks up a barcode decoded on the device. Null when the catalog does not know it.
+export async function requestProduct(code: string, signal?: AbortSignal): Promise<Product | null> {
+  const fields = validateFields(productLookupRequestSchema, { code })
+
+  const response = await fetchFromServer(`/api/product?code=${encodeURIComponent(fields.code)}`, {
+    signal,
+    headers: {
+      [SESSION_HEADER]: getClientSessionId(),
+    },
+  })
+
+  if (!response.ok) {
+    throw await errorFromResponse(response)
+  }
+
+  const parsed = productLookupResponseSchema.safeParse(await response.json())
+  if (!parsed.success) {
+    throw new AIServiceError("upstream_error", "Unexpected response from the product catalog")
+  }
+  return parsed.data.product
+}
+
+// True when the request never reached our server, as opposed to the server answering with an error.
+// Other failures, such as a TypeError from a bug in the page, are not worth queuing for a retry.
+export function isOfflineError(error: unknown) {
+  return error instanceof NetworkError
+}
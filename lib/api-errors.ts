@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+import { ERROR_STATUS, toAIServiceError, type AIErrorCode } from "@/lib/errors"
+import { getProviderConfigError } from "@/lib/providers"
+import { checkRateLimit, type RateLimitedRoute } from "@/lib/rate-limit"
+import type { ErrorResponse } from "@/lib/schemas"
+
+// JSON error response for a failed request, carrying a machine-readable `code`
+export function errorResponse(
+  code: AIErrorCode,
+  error: string,
+  message?: string,
+  headers?: Record<string, string>,
+  fieldErrors?: ErrorResponse["fieldErrors"],
+) {
+  const body: ErrorResponse = { error, code, message, fieldErrors }
+  return NextResponse.json(body, { status: ERROR_STATUS[code], headers })
+}
+
+// Error response for anything thrown while calling the model
+export function aiErrorResponse(error: unknown, summary: string) {
+  const aiError = toAIServiceError(error)
+  const headers = aiError.retryAfterSeconds
+    ? { "Retry-After": String(Math.ceil(aiError.retryAfterSeconds)) }
+    : undefined
+
+  return errorResponse(aiError.code, summary, aiError.message, headers)
+}
+
+// 400 response listing the problems with each request field
+export function validationErrorResponse(error: z.ZodError) {
+  const { formErrors, fieldErrors } = error.flatten()
+  const firstProblem = formErrors[0] ?? Object.values(fieldErrors).flat()[0]
+
+  return errorResponse(
+    "invalid_input",
+    "Invalid request",
+    typeof firstProblem === "string" ? firstProblem : undefined,
+    undefined,
+    fieldErrors as Record<string, string[]>,
+  )
+}
+
+export type ParseResult<T> = { data: T; response?: never } | { data?: never; response: NextResponse }
+
+// Validates a value against a schema. Returns either the data or the 400 response to send.
+export function parseWithSchema<T extends z.ZodTypeAny>(value: unknown, schema: T): ParseResult<z.output<T>> {
+  const parsed = schema.safeParse(value)
+  if (!parsed.success) {
+    return { response: validationErrorResponse(parsed.error) }
+  }
+
+  return { data: parsed.data }
+}
+
+// Parses a JSON request body against a schema, see parseWithSchema
+export async function parseRequestBody<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T,
+): Promise<ParseResult<z.output<T>>> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return {
+      response: errorResponse("invalid_input", "Invalid request", "Request body must be valid JSON"),
+    }
+  }
+
+  return parseWithSchema(body, schema)
+}
+
+// Shared start of the API routes. Answers 503 when the backend the route needs is not configured, then
+// throttles each client before doing any work, so a runaway loop cannot burn the model quota.
+// Returns the response to send, or null when the route can go on.
+export async function checkRouteReady(
+  request: Request,
+  route: RateLimitedRoute,
+  { configError = getProviderConfigError(), backend = "AI provider" } = {},
+) {
+  if (configError) {
+    console.error(configError)
+    return errorResponse("not_configured", `${backend} is not configured`)
+  }
+
+  return checkRateLimit(request, route)
+}
@@ -0,0 +1,27 @@
+// Short tones for guidance that works without listening to words, such as search mode
+
+let audioContext: AudioContext | null = null
+
+// Plays a soft beep. Browsers only allow sound after the user interacted with the page, before that it is silent.
+export function playTone(frequency: number, durationMs = 150) {
+  if (typeof window === "undefined" || typeof AudioContext === "undefined") return
+
+  audioContext ??= new AudioContext()
+  if (audioContext.state === "suspended") {
+    audioContext.resume().catch(() => {})
+  }
+
+  const start = audioContext.currentTime
+  const end = start + durationMs / 1000
+  const oscillator = audioContext.createOscillator()
+  const gain = audioContext.createGain()
+
+  oscillator.frequency.value = frequency
+  // Fade out instead of stopping abruptly, which clicks
+  gain.gain.setValueAtTime(0.2, start)
+  gain.gain.exponentialRampToValueAtTime(0.001, end)
+
+  oscillator.connect(gain).connect(audioContext.destination)
+  oscillator.start(start)
+  oscillator.stop(end)
+}
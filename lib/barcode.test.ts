@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest"
+import { detectCodes, hasValidCheckDigit, normalizeProductCode, productCode } from "@/lib/barcode"
+
+// Bar and space widths of each digit in the L code, the G code is the same reversed
+const L_WIDTHS = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"]
+const FIRST_DIGIT_PARITY = [
+  "LLLLLL",
+  "LLGLGG",
+  "LLGGLG",
+  "LLGGGL",
+  "LGLLGG",
+  "LGGLLG",
+  "LGGGLL",
+  "LGLGLG",
+  "LGLGGL",
+  "LGGLGL",
+]
+
+const EDGE_GUARD = [1, 1, 1]
+const MIDDLE_GUARD = [1, 1, 1, 1, 1]
+
+// Module widths of an EAN-13 barcode, starting with its first bar
+function ean13Runs(code: string) {
+  const digits = [...code].map(Number)
+  const widths = (digit: number, reversed = false) => {
+    const runs = [...L_WIDTHS[digit]].map(Number)
+    return reversed ? runs.reverse() : runs
+  }
+
+  return [
+    ...EDGE_GUARD,
+    ...digits.slice(1, 7).flatMap((digit, i) => widths(digit, FIRST_DIGIT_PARITY[digits[0]][i] === "G")),
+    ...MIDDLE_GUARD,
+    ...digits.slice(7).flatMap((digit) => widths(digit)),
+    ...EDGE_GUARD,
+  ]
+}
+
+// A canvas whose every row holds the barcode, with a white quiet zone on both sides
+function barcodeCanvas(runs: number[], pixelsPerModule = 3) {
+  const row: number[] = Array(10 * pixelsPerModule).fill(255)
+  runs.forEach((run, i) => row.push(...Array(run * pixelsPerModule).fill(i % 2 === 0 ? 0 : 255)))
+  row.push(...Array(10 * pixelsPerModule).fill(255))
+
+  const width = row.length
+  const height = 20
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    row.forEach((value, x) => {
+      data.set([value, value, value, 255], (y * width + x) * 4)
+    })
+  }
+
+  return {
+    width,
+    height,
+    getContext: () => ({ getImageData: () => ({ data, width, height }) }),
+  } as unknown as HTMLCanvasElement
+}
+
+describe("hasValidCheckDigit", () => {
+  it("accepts codes with a correct check digit", () => {
+    expect(hasValidCheckDigit("4006381333931")).toBe(true)
+    expect(hasValidCheckDigit("036000291452")).toBe(true)
+    expect(hasValidCheckDigit("96385074")).toBe(true)
+  })
+
+  it("rejects a wrong check digit and anything that is not 8 to 14 digits", () => {
+    expect(hasValidCheckDigit("4006381333932")).toBe(false)
+    expect(hasValidCheckDigit("1234567")).toBe(false)
+    expect(hasValidCheckDigit("40063813339a1")).toBe(false)
+  })
+})
+
+describe("normalizeProductCode", () => {
+  it("stores UPC-A and GTIN-14 numbers as 13 digits", () => {
+    expect(normalizeProductCode("036000291452")).toBe("0036000291452")
+    expect(normalizeProductCode("04006381333931")).toBe("4006381333931")
+    expect(normalizeProductCode("96385074")).toBe("96385074")
+  })
+})
+
+describe("productCode", () => {
+  it("returns the number to look up for product barcodes", () => {
+    expect(productCode({ format: "ean_13", value: "4006381333931" })).toBe("4006381333931")
+    expect(productCode({ format: "upc_a", value: "036000291452" })).toBe("0036000291452")
+  })
+
+  it("expands UPC-E barcodes to the UPC-A number", () => {
+    expect(productCode({ format: "upc_e", value: "04252614" })).toBe("0042100005264")
+  })
+
+  it("ignores QR codes and misread numbers", () => {
+    expect(productCode({ format: "qr_code", value: "4006381333931" })).toBeNull()
+    expect(productCode({ format: "ean_13", value: "4006381333932" })).toBeNull()
+  })
+})
+
+describe("detectCodes without BarcodeDetector", () => {
+  it("decodes an EAN-13 barcode", async () => {
+    const canvas = barcodeCanvas(ean13Runs("4006381333931"))
+    expect(await detectCodes(canvas)).toEqual([{ format: "ean_13", value: "4006381333931" }])
+  })
+
+  it("reports EAN-13 codes starting with 0 as UPC-A", async () => {
+    const canvas = barcodeCanvas(ean13Runs("0036000291452"))
+    expect(await detectCodes(canvas)).toEqual([{ format: "upc_a", value: "036000291452" }])
+  })
+
+  it("decodes a barcode held upside down", async () => {
+    const canvas = barcodeCanvas(ean13Runs("4006381333931").reverse())
+    expect(await detectCodes(canvas)).toEqual([{ format: "ean_13", value: "4006381333931" }])
+  })
+
+  it("finds nothing in a blank frame", async () => {
+    expect(await detectCodes(barcodeCanvas([]))).toEqual([])
+  })
+})
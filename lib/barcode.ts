@@ -0,0 +1,255 @@
+// Product mode: barcodes and QR codes are decoded on the device from the captured frame.
+// The browser's BarcodeDetector reads most formats where it exists. Elsewhere a small decoder
+// reads the EAN and UPC barcodes printed on products, but not QR codes.
+
+export interface DetectedCode {
+  // BarcodeDetector format names, such as "ean_13" or "qr_code"
+  format: string
+  value: string
+}
+
+// Formats that hold a product number to look up in the catalog
+const PRODUCT_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e"]
+
+// Not yet in the TypeScript DOM types
+interface BarcodeDetectorLike {
+  detect: (source: CanvasImageSource) => Promise<{ format: string; rawValue: string }[]>
+}
+
+type BarcodeDetectorConstructor = new () => BarcodeDetectorLike
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  if (typeof window === "undefined") return undefined
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+}
+
+// Whether QR codes and other 2D codes can be read in this browser
+export function canReadQrCodes() {
+  return getBarcodeDetector() !== undefined
+}
+
+// Widths of the bars and spaces of each digit, in modules, for the L code. The R code has the same
+// widths with bars and spaces swapped, and the G code has them in reverse order.
+const L_WIDTHS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+]
+const G_WIDTHS = L_WIDTHS.map((widths) => [...widths].reverse())
+
+// Which of the first six EAN-13 digits use the G code gives the leading digit
+const FIRST_DIGIT_PARITY = [
+  "LLLLLL",
+  "LLGLGG",
+  "LLGGLG",
+  "LLGGGL",
+  "LGLLGG",
+  "LGGLLG",
+  "LGGGLL",
+  "LGLGLG",
+  "LGLGGL",
+  "LGGLGL",
+]
+
+// A digit is only accepted when its widths are this close to the pattern, in modules summed over its 4 runs
+const MAX_DIGIT_ERROR = 1.6
+// Rows darker and lighter than each other by less than this cannot hold a barcode
+const MIN_ROW_CONTRAST = 48
+// Rows of the frame scanned by the fallback decoder, spread over its middle
+const SCAN_ROWS = 15
+
+// The check digit is correct: digits alternately weighted 3 and 1 from the right, check digit excluded
+export function hasValidCheckDigit(code: string) {
+  if (!/^\d{8,14}$/.test(code)) return false
+
+  const digits = [...code].map(Number)
+  const check = digits.pop()!
+  const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10 === check
+}
+
+// Product numbers as the catalog stores them: 13 digits, or 8 for EAN-8. UPC-A gains a leading 0.
+export function normalizeProductCode(code: string) {
+  if (code.length === 12) return `0${code}`
+  if (code.length === 14 && code.startsWith("0")) return code.slice(1)
+  return code
+}
+
+// The UPC-A number a short UPC-E barcode stands for
+function expandUpcE(code: string) {
+  const [system, d1, d2, d3, d4, d5, d6, check] = code
+  let body: string
+  if (d6 <= "2") body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`
+  else if (d6 === "3") body = `${d1}${d2}${d3}00000${d4}${d5}`
+  else if (d6 === "4") body = `${d1}${d2}${d3}${d4}00000${d5}`
+  else body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`
+  return `${system}${body}${check}`
+}
+
+// The product number to look up, or null for codes that do not hold one
+export function productCode(code: DetectedCode) {
+  if (!PRODUCT_FORMATS.includes(code.format) || !/^\d+$/.test(code.value)) return null
+  const value = code.format === "upc_e" && code.value.length === 8 ? expandUpcE(code.value) : code.value
+  return hasValidCheckDigit(value) ? normalizeProductCode(value) : null
+}
+
+// The digit whose pattern best matches four runs, and how far off it is
+function matchDigit(runs: number[], patterns: number[][]) {
+  const total = runs.reduce((sum, run) => sum + run, 0)
+  let best = { digit: -1, error: Number.POSITIVE_INFINITY }
+
+  patterns.forEach((pattern, digit) => {
+    const error = runs.reduce((sum, run, i) => sum + Math.abs((run * 7) / total - pattern[i]), 0)
+    if (error < best.error) best = { digit, error }
+  })
+
+  return best
+}
+
+// Guard bars are one module wide each
+function isGuard(runs: number[], module: number) {
+  return runs.every((run) => run > module * 0.4 && run < module * 2)
+}
+
+// Decodes an EAN-13 (or UPC-A, its subset) or EAN-8 barcode from the runs starting at its first bar
+function decodeEan(runs: number[], digitCount: 8 | 13) {
+  const half = digitCount === 13 ? 6 : 4
+  const runCount = 3 + half * 4 + 5 + half * 4 + 3
+  if (runs.length < runCount) return null
+
+  const modules = 3 + half * 7 + 5 + half * 7 + 3
+  const module = runs.slice(0, runCount).reduce((sum, run) => sum + run, 0) / modules
+  const middle = 3 + half * 4
+
+  if (!isGuard(runs.slice(0, 3), module)) return null
+  if (!isGuard(runs.slice(middle, middle + 5), module)) return null
+  if (!isGuard(runs.slice(runCount - 3, runCount), module)) return null
+
+  let digits = ""
+  let parity = ""
+
+  for (let i = 0; i < half; i++) {
+    const digitRuns = runs.slice(3 + i * 4, 7 + i * 4)
+    const l = matchDigit(digitRuns, L_WIDTHS)
+    const g = digitCount === 13 ? matchDigit(digitRuns, G_WIDTHS) : l
+    const best = g.error < l.error ? g : l
+    if (best.error > MAX_DIGIT_ERROR) return null
+    digits += best.digit
+    parity += best === l ? "L" : "G"
+  }
+
+  for (let i = 0; i < half; i++) {
+    const digitRuns = runs.slice(middle + 5 + i * 4, middle + 9 + i * 4)
+    const best = matchDigit(digitRuns, L_WIDTHS)
+    if (best.error > MAX_DIGIT_ERROR) return null
+    digits += best.digit
+  }
+
+  if (digitCount === 13) {
+    const first = FIRST_DIGIT_PARITY.indexOf(parity)
+    if (first < 0) return null
+    digits = `${first}${digits}`
+  } else if (parity !== "LLLL") {
+    return null
+  }
+
+  return hasValidCheckDigit(digits) ? digits : null
+}
+
+// Widths of the alternating dark and light runs along one row, starting with a dark run
+function rowRuns(data: Uint8ClampedArray, width: number, y: number) {
+  const luminance = new Array<number>(width)
+  for (let x = 0; x < width; x++) {
+    const i = (y * width + x) * 4
+    luminance[x] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+  }
+
+  const min = Math.min(...luminance)
+  const max = Math.max(...luminance)
+  if (max - min < MIN_ROW_CONTRAST) return []
+
+  const threshold = (min + max) / 2
+  const runs: number[] = []
+  let dark = luminance[0] < threshold
+  let length = 0
+
+  for (const value of luminance) {
+    if (value < threshold === dark) {
+      length++
+    } else {
+      // Light runs before the first bar are left out
+      if (dark || runs.length > 0) runs.push(length)
+      dark = !dark
+      length = 1
+    }
+  }
+  if (dark) runs.push(length)
+
+  return runs
+}
+
+// Tries every bar of the row as the start of a barcode, in both directions for upside down codes
+function decodeRow(runs: number[]): DetectedCode | null {
+  for (const sequence of [runs, [...runs].reverse()]) {
+    for (let start = 0; start < sequence.length; start += 2) {
+      const candidate = sequence.slice(start)
+      const ean13 = decodeEan(candidate, 13)
+      if (ean13) {
+        // UPC-A is an EAN-13 starting with 0
+        return ean13.startsWith("0") ? { format: "upc_a", value: ean13.slice(1) } : { format: "ean_13", value: ean13 }
+      }
+      const ean8 = decodeEan(candidate, 8)
+      if (ean8) return { format: "ean_8", value: ean8 }
+    }
+  }
+  return null
+}
+
+// Fallback for browsers without BarcodeDetector: scans rows across the middle of the frame for EAN and UPC barcodes.
+// A code is accepted when two rows agree, so a row misread by chance is not reported.
+function decodeProductBarcode(canvas: HTMLCanvasElement): DetectedCode | null {
+  const context = canvas.getContext("2d")
+  if (!context || !canvas.width || !canvas.height) return null
+
+  const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height)
+  const seen = new Map<string, number>()
+
+  for (let row = 0; row < SCAN_ROWS; row++) {
+    const y = Math.floor(height * (0.2 + (0.6 * row) / (SCAN_ROWS - 1)))
+    const code = decodeRow(rowRuns(data, width, y))
+    if (!code) continue
+
+    const count = (seen.get(code.value) ?? 0) + 1
+    if (count >= 2) return code
+    seen.set(code.value, count)
+  }
+
+  return null
+}
+
+// All codes found in the frame, product barcodes first
+export async function detectCodes(canvas: HTMLCanvasElement): Promise<DetectedCode[]> {
+  const BarcodeDetector = getBarcodeDetector()
+
+  if (BarcodeDetector) {
+    try {
+      const found = await new BarcodeDetector().detect(canvas)
+      return found
+        .map(({ format, rawValue }) => ({ format, value: rawValue }))
+        .sort((a, b) => Number(PRODUCT_FORMATS.includes(b.format)) - Number(PRODUCT_FORMATS.includes(a.format)))
+    } catch (error) {
+      // Some browsers expose the API without any supported formats
+      console.warn("BarcodeDetector failed, using the fallback decoder:", error)
+    }
+  }
+
+  const code = decodeProductBarcode(canvas)
+  return code ? [code] : []
+}
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { createCircuitBreaker, planRetry, withCallPolicy, type CallPolicy } from "@/lib/call-policy"
+import { AIServiceError } from "@/lib/errors"
+
+const POLICY: CallPolicy = {
+  deadlineMs: 10_000,
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  breakerThreshold: 2,
+  breakerCooldownMs: 5000,
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe("planRetry", () => {
+  const deadlineAt = () => Date.now() + 10_000
+
+  it("retries transient failures with backoff up to the exponential cap", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999)
+    const delay = planRetry(new AIServiceError("upstream_error", "boom"), 2, deadlineAt(), POLICY)
+    expect(delay).toBeGreaterThan(190)
+    expect(delay).toBeLessThanOrEqual(200)
+  })
+
+  it("never retries problems with the request itself", () => {
+    expect(planRetry(new AIServiceError("invalid_input", "bad"), 1, deadlineAt(), POLICY)).toBeNull()
+    expect(planRetry(new AIServiceError("auth", "key"), 1, deadlineAt(), POLICY)).toBeNull()
+  })
+
+  it("gives up after the last attempt", () => {
+    expect(planRetry(new AIServiceError("upstream_error", "boom"), 3, deadlineAt(), POLICY)).toBeNull()
+  })
+
+  it("waits at least as long as the upstream asked", () => {
+    const error = new AIServiceError("rate_limited", "slow down", { retryAfterSeconds: 2 })
+    expect(planRetry(error, 1, deadlineAt(), POLICY)).toBe(2000)
+  })
+
+  it("does not wait past the deadline", () => {
+    const error = new AIServiceError("rate_limited", "slow down", { retryAfterSeconds: 20 })
+    expect(planRetry(error, 1, deadlineAt(), POLICY)).toBeNull()
+  })
+})
+
+describe("createCircuitBreaker", () => {
+  it("opens after consecutive transient failures and closes after the cooldown", () => {
+    vi.useFakeTimers()
+    const breaker = createCircuitBreaker(POLICY)
+    const failure = new AIServiceError("upstream_timeout", "slow")
+
+    breaker.recordFailure(failure)
+    expect(() => breaker.check()).not.toThrow()
+    breaker.recordFailure(failure)
+    expect(() => breaker.check()).toThrow(AIServiceError)
+
+    vi.advanceTimersByTime(POLICY.breakerCooldownMs)
+    expect(() => breaker.check()).not.toThrow()
+  })
+
+  it("ignores failures caused by the request and resets on success", () => {
+    const breaker = createCircuitBreaker(POLICY)
+
+    breaker.recordFailure(new AIServiceError("invalid_input", "bad"))
+    breaker.recordFailure(new AIServiceError("safety_blocked", "no"))
+    breaker.recordFailure(new AIServiceError("upstream_error", "boom"))
+    breaker.recordSuccess()
+    breaker.recordFailure(new AIServiceError("upstream_error", "boom"))
+    expect(() => breaker.check()).not.toThrow()
+  })
+})
+
+describe("withCallPolicy", () => {
+  it("retries until an attempt succeeds and reports each retry", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0)
+    const operation = vi
+      .fn<(signal: AbortSignal) => Promise<string>>()
+      .mockRejectedValueOnce(new AIServiceError("upstream_error", "boom"))
+      .mockResolvedValueOnce("ok")
+    const onRetry = vi.fn()
+
+    await expect(withCallPolicy(operation, { policy: POLICY, onRetry })).resolves.toBe("ok")
+    expect(operation).toHaveBeenCalledTimes(2)
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1 }))
+  })
+
+  it("fails with upstream_timeout when an attempt runs past the deadline", async () => {
+    const never = () => new Promise<string>(() => {})
+    await expect(
+      withCallPolicy(never, { policy: { ...POLICY, deadlineMs: 20, maxAttempts: 1 } }),
+    ).rejects.toMatchObject({ code: "upstream_timeout" })
+  })
+
+  it("does not call the backend while the breaker is open", async () => {
+    const breaker = createCircuitBreaker({ ...POLICY, breakerThreshold: 1 })
+    breaker.recordFailure(new AIServiceError("upstream_error", "boom"))
+    const operation = vi.fn(async () => "ok")
+
+    await expect(withCallPolicy(operation, { policy: POLICY, breaker })).rejects.toBeInstanceOf(AIServiceError)
+    expect(operation).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,169 @@
+import { AIServiceError, toAIServiceError, type AIErrorCode } from "@/lib/errors"
+
+// Shared retry, timeout and circuit breaker policy for model calls.
+// The deadline is read from a NEXT_PUBLIC_ variable so the pages know the same budget as the server.
+export interface CallPolicy {
+  // Total time allowed for a call, retries included
+  deadlineMs: number
+  maxAttempts: number
+  // Backoff before retry n is a random delay up to min(maxDelayMs, baseDelayMs * 2^(n-1))
+  baseDelayMs: number
+  maxDelayMs: number
+  // Consecutive failed calls before the breaker opens, and how long it stays open
+  breakerThreshold: number
+  breakerCooldownMs: number
+}
+
+export const CALL_DEADLINE_MS = Number(process.env.NEXT_PUBLIC_AI_CALL_DEADLINE_MS) || 30000
+
+export const DEFAULT_CALL_POLICY: CallPolicy = {
+  deadlineMs: CALL_DEADLINE_MS,
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30000,
+}
+
+// The pages wait a little longer than the server deadline, so the server's own timeout error wins
+export const CLIENT_BUDGET_MS = CALL_DEADLINE_MS + 5000
+
+// How often the pages tell the user a slow request is still being worked on
+export const STILL_WORKING_INTERVAL_MS = 8000
+
+// Rate limits, timeouts and 5xx style upstream failures are worth another attempt
+const RETRYABLE_CODES: AIErrorCode[] = ["rate_limited", "upstream_timeout", "upstream_error"]
+
+export interface RetryInfo {
+  // The attempt that just failed, starting at 1
+  attempt: number
+  delayMs: number
+  remainingMs: number
+  error: AIServiceError
+}
+
+// Returns how long to wait before the next attempt, or null when the call should give up
+export function planRetry(error: AIServiceError, attempt: number, deadlineAt: number, policy: CallPolicy) {
+  if (!RETRYABLE_CODES.includes(error.code) || attempt >= policy.maxAttempts) return null
+
+  // Exponential backoff with full jitter, but never sooner than the upstream asked for
+  const backoff = Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  const delayMs = Math.max(backoff, (error.retryAfterSeconds ?? 0) * 1000)
+
+  // Not worth waiting if the next attempt could not start before the deadline
+  return Date.now() + delayMs < deadlineAt ? delayMs : null
+}
+
+export interface CircuitBreaker {
+  // Throws when the breaker is open
+  check: () => void
+  recordSuccess: () => void
+  recordFailure: (error: AIServiceError) => void
+}
+
+// Stops calling a failing backend for a while after repeated failures
+export function createCircuitBreaker(policy: CallPolicy = DEFAULT_CALL_POLICY): CircuitBreaker {
+  let consecutiveFailures = 0
+  let openUntil = 0
+
+  return {
+    check() {
+      const remainingMs = openUntil - Date.now()
+      if (remainingMs > 0) {
+        throw new AIServiceError("upstream_error", "The AI service is paused after repeated failures", {
+          retryAfterSeconds: Math.ceil(remainingMs / 1000),
+        })
+      }
+    },
+
+    recordSuccess() {
+      consecutiveFailures = 0
+      openUntil = 0
+    },
+
+    recordFailure(error: AIServiceError) {
+      // Problems with the request itself say nothing about the health of the backend
+      if (!RETRYABLE_CODES.includes(error.code)) return
+
+      consecutiveFailures += 1
+      // The count is kept after the cooldown, so the first failure after it reopens the breaker
+      if (consecutiveFailures >= policy.breakerThreshold) {
+        openUntil = Date.now() + policy.breakerCooldownMs
+      }
+    },
+  }
+}
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Runs one attempt with its own abort signal, failing with upstream_timeout at the deadline
+// even when the operation ignores the signal
+export async function runWithDeadline<T>(operation: (signal: AbortSignal) => Promise<T>, deadlineAt: number) {
+  const controller = new AbortController()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => {
+        const error = new AIServiceError("upstream_timeout", "The AI service did not respond before the deadline")
+        controller.abort(error)
+        reject(error)
+      },
+      Math.max(0, deadlineAt - Date.now()),
+    )
+  })
+
+  try {
+    return await Promise.race([operation(controller.signal), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+interface CallPolicyOptions {
+  policy?: CallPolicy
+  breaker?: CircuitBreaker
+  onRetry?: (info: RetryInfo) => void
+}
+
+// Runs a model call under the policy: per-call deadline, retries with backoff and the circuit breaker
+export async function withCallPolicy<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  { policy = DEFAULT_CALL_POLICY, breaker, onRetry }: CallPolicyOptions = {},
+): Promise<T> {
+  breaker?.check()
+
+  const deadlineAt = Date.now() + policy.deadlineMs
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await runWithDeadline(operation, deadlineAt)
+      breaker?.recordSuccess()
+      return result
+    } catch (caught) {
+      const error = toAIServiceError(caught)
+      const delayMs = planRetry(error, attempt, deadlineAt, policy)
+
+      if (delayMs === null) {
+        breaker?.recordFailure(error)
+        throw error
+      }
+
+      onRetry?.({ attempt, delayMs, remainingMs: deadlineAt - Date.now(), error })
+      await sleep(delayMs)
+    }
+  }
+}
+
+// Calls onTick every intervalMs with the time left in the budget, until the returned stop function runs.
+// The pages use it to tell the user the request is still being worked on.
+export function watchBudget(budgetMs: number, intervalMs: number, onTick: (remainingMs: number) => void) {
+  const startedAt = Date.now()
+  const timer = setInterval(() => {
+    onTick(Math.max(0, budgetMs - (Date.now() - startedAt)))
+  }, intervalMs)
+
+  return () => clearInterval(timer)
+}
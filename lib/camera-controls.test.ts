@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { detectCapabilities, nextZoom, videoConstraints } from "@/lib/camera-controls"
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("videoConstraints", () => {
+  it("asks for the preset size as an ideal, so cameras without it still start", () => {
+    expect(videoConstraints("environment", "high")).toEqual({
+      facingMode: "environment",
+      width: { ideal: 1920 },
+      height: { ideal: 1080 },
+    })
+    expect(videoConstraints("user", "low")).toMatchObject({ facingMode: "user", width: { ideal: 640 } })
+  })
+})
+
+describe("nextZoom", () => {
+  const range = { min: 1, max: 8, step: 0.5 }
+
+  it("moves a quarter of the range, snapped to the camera's step", () => {
+    expect(nextZoom(1, range, 1)).toBe(3)
+    expect(nextZoom(3, range, -1)).toBe(1.5)
+    expect(nextZoom(1, { min: 1, max: 5, step: 0.1 }, 1)).toBeCloseTo(2)
+  })
+
+  it("stays within the range", () => {
+    expect(nextZoom(8, range, 1)).toBe(8)
+    expect(nextZoom(7, range, 1)).toBe(8)
+    expect(nextZoom(1, range, -1)).toBe(1)
+  })
+})
+
+describe("detectCapabilities", () => {
+  function track(capabilities?: object) {
+    return { getCapabilities: capabilities && (() => capabilities) } as unknown as MediaStreamTrack
+  }
+
+  function cameras(count: number) {
+    const devices = Array.from({ length: count }, () => ({ kind: "videoinput" }))
+    vi.stubGlobal("navigator", { mediaDevices: { enumerateDevices: async () => devices } })
+  }
+
+  it("reports the torch, the zoom range and whether there is another camera", async () => {
+    cameras(2)
+    expect(await detectCapabilities(track({ torch: true, zoom: { min: 1, max: 4 } }))).toEqual({
+      torch: true,
+      zoom: { min: 1, max: 4, step: 0.03 },
+      canSwitchLens: true,
+    })
+  })
+
+  it("reports nothing a browser without getCapabilities cannot show", async () => {
+    cameras(1)
+    expect(await detectCapabilities(track())).toEqual({ torch: false, zoom: null, canSwitchLens: false })
+    expect((await detectCapabilities(track({ zoom: { min: 1, max: 1, step: 0.1 } }))).zoom).toBeNull()
+  })
+})
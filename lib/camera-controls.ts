@@ -0,0 +1,91 @@
+// Camera settings for the Video Analyzer (see hooks/use-camera-controls). Torch and zoom are not part of the
+// standard constraint types yet and are missing on many devices, so every control is checked before use.
+
+export type FacingMode = "environment" | "user"
+
+export const RESOLUTION_PRESETS = {
+  low: { width: 640, height: 480 },
+  medium: { width: 1280, height: 720 },
+  high: { width: 1920, height: 1080 },
+} as const
+
+export type ResolutionPreset = keyof typeof RESOLUTION_PRESETS
+
+export const DEFAULT_RESOLUTION: ResolutionPreset = "medium"
+
+export interface ZoomRange {
+  min: number
+  max: number
+  step: number
+}
+
+export interface CameraCapabilities {
+  torch: boolean
+  // Null when the camera cannot zoom
+  zoom: ZoomRange | null
+  // True when the device has more than one camera
+  canSwitchLens: boolean
+}
+
+export const NO_CAPABILITIES: CameraCapabilities = { torch: false, zoom: null, canSwitchLens: false }
+
+// Each "zoom in" moves this fraction of the zoom range
+const ZOOM_STEPS = 4
+
+// Capabilities as reported by Chromium based browsers
+type ExtendedCapabilities = MediaTrackCapabilities & {
+  torch?: boolean
+  zoom?: { min: number; max: number; step?: number }
+}
+
+export function videoConstraints(facingMode: FacingMode, resolution: ResolutionPreset): MediaTrackConstraints {
+  const { width, height } = RESOLUTION_PRESETS[resolution]
+  return { facingMode, width: { ideal: width }, height: { ideal: height } }
+}
+
+export async function detectCapabilities(track: MediaStreamTrack): Promise<CameraCapabilities> {
+  // Firefox and older Safari have no getCapabilities
+  const capabilities: ExtendedCapabilities = track.getCapabilities?.() ?? {}
+
+  let cameraCount = 0
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices()
+    cameraCount = devices.filter((device) => device.kind === "videoinput").length
+  } catch (error) {
+    console.error("Error listing cameras:", error)
+  }
+
+  const zoom = capabilities.zoom
+  return {
+    torch: capabilities.torch === true,
+    zoom:
+      zoom && zoom.max > zoom.min
+        ? { min: zoom.min, max: zoom.max, step: zoom.step || (zoom.max - zoom.min) / 100 }
+        : null,
+    canSwitchLens: cameraCount > 1,
+  }
+}
+
+// Zoom level one step in or out, rounded to what the camera supports
+export function nextZoom(current: number, range: ZoomRange, direction: 1 | -1) {
+  const target = current + (direction * (range.max - range.min)) / ZOOM_STEPS
+  const snapped = range.min + Math.round((target - range.min) / range.step) * range.step
+  return Math.min(range.max, Math.max(range.min, snapped))
+}
+
+// Torch and zoom only work through the advanced constraint set
+export function applyTorch(track: MediaStreamTrack, on: boolean) {
+  return track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] })
+}
+
+export function applyZoom(track: MediaStreamTrack, zoom: number) {
+  return track.applyConstraints({ advanced: [{ zoom } as MediaTrackConstraintSet] })
+}
+
+export function applyResolution(track: MediaStreamTrack, resolution: ResolutionPreset) {
+  const { width, height } = RESOLUTION_PRESETS[resolution]
+  return track.applyConstraints({ width: { ideal: width }, height: { ideal: height } })
+}
+
+// Outcome of a camera control, so the page can say why nothing changed
+export type CameraControlResult = "done" | "unsupported" | "failed"
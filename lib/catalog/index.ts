@@ -0,0 +1,68 @@
+// Mark this file as server-only so catalog files and credentials never reach the client
+import "server-only"
+
+import { AIServiceError } from "@/lib/errors"
+import { localCatalog } from "./local"
+import type { CatalogConfig, CatalogDefinition, ProductCatalog } from "./types"
+
+export type { CatalogConfig, CatalogDefinition, LookupOptions, ProductCatalog } from "./types"
+
+const DEFAULT_CATALOG = "local"
+
+// A registered catalog with its config type erased, both read the settings from the environment when called
+interface RegisteredCatalog {
+  validate: () => string | null
+  create: () => ProductCatalog
+}
+
+function toRegistered<TConfig extends CatalogConfig>(definition: CatalogDefinition<TConfig>): RegisteredCatalog {
+  return {
+    validate: () => definition.validate(definition.configFromEnv(process.env)),
+    create: () => definition.create(definition.configFromEnv(process.env)),
+  }
+}
+
+// Registry of available catalogs, keyed by the value of the PRODUCT_CATALOG env variable
+const registry = new Map<string, RegisteredCatalog>([["local", toRegistered(localCatalog)]])
+
+// Cached instances so catalog files are read once per process
+const instances = new Map<string, ProductCatalog>()
+
+// Register an additional catalog (or replace the built-in one)
+export function registerCatalog<TConfig extends CatalogConfig>(name: string, definition: CatalogDefinition<TConfig>) {
+  registry.set(name, toRegistered(definition))
+  instances.delete(name)
+}
+
+// Name of the catalog selected by configuration
+export function getCatalogName() {
+  return (process.env.PRODUCT_CATALOG || DEFAULT_CATALOG).toLowerCase()
+}
+
+// Returns a description of the configuration problem, or null when the selected catalog is usable
+export function getCatalogConfigError(): string | null {
+  const name = getCatalogName()
+  const definition = registry.get(name)
+
+  if (!definition) {
+    return `Unknown PRODUCT_CATALOG "${name}". Available catalogs: ${[...registry.keys()].join(", ")}`
+  }
+
+  return definition.validate()
+}
+
+// Get the catalog selected by configuration
+export function getCatalog(): ProductCatalog {
+  const name = getCatalogName()
+  const cached = instances.get(name)
+  if (cached) return cached
+
+  const configError = getCatalogConfigError()
+  if (configError) {
+    throw new AIServiceError("not_configured", configError)
+  }
+
+  const catalog = registry.get(name)!.create()
+  instances.set(name, catalog)
+  return catalog
+}
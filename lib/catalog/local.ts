@@ -0,0 +1,38 @@
+import { existsSync, readFileSync } from "node:fs"
+import { z } from "zod"
+import { productSchema } from "@/lib/schemas"
+import bundledProducts from "./products.json"
+import type { CatalogConfig, CatalogDefinition, ProductCatalog } from "./types"
+
+// Products keyed by their code, the same shape as products.json
+const productFileSchema = z.record(productSchema.omit({ code: true }))
+
+type ProductFile = z.infer<typeof productFileSchema>
+
+function loadProducts(path?: string): ProductFile {
+  const bundled = productFileSchema.parse(bundledProducts)
+  if (!path) return bundled
+
+  const custom = productFileSchema.parse(JSON.parse(readFileSync(path, "utf8")))
+  return { ...bundled, ...custom }
+}
+
+// Stand-in catalog read from products.json, plus an optional JSON file of the same shape (PRODUCT_CATALOG_PATH)
+function createLocalCatalog(config: CatalogConfig): ProductCatalog {
+  const products = loadProducts(config.source)
+
+  return {
+    name: "local",
+    async lookup(code) {
+      const product = products[code]
+      return product ? { code, ...product } : null
+    },
+  }
+}
+
+export const localCatalog: CatalogDefinition = {
+  configFromEnv: (env) => ({ source: env.PRODUCT_CATALOG_PATH }),
+  validate: (config) =>
+    config.source && !existsSync(config.source) ? `PRODUCT_CATALOG_PATH "${config.source}" does not exist` : null,
+  create: createLocalCatalog,
+}
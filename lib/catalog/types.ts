@@ -0,0 +1,27 @@
+import type { Product } from "@/lib/schemas"
+
+// Shared types for the product catalog used by product mode
+
+export interface CatalogConfig {
+  // Where the catalog reads its products, a file path or a URL depending on the catalog
+  source?: string
+}
+
+export interface LookupOptions {
+  signal?: AbortSignal
+}
+
+// Every catalog (the bundled JSON file, a database, an online service, ...) implements this interface
+export interface ProductCatalog {
+  name: string
+  // Null when the catalog does not know the product. Codes are 13 digits, or 8 for EAN-8.
+  lookup: (code: string, options?: LookupOptions) => Promise<Product | null>
+}
+
+export interface CatalogDefinition<TConfig extends CatalogConfig = CatalogConfig> {
+  // Reads the catalog settings from environment variables
+  configFromEnv: (env: NodeJS.ProcessEnv) => TConfig
+  // Returns a description of what is missing, or null when the catalog is usable
+  validate: (config: TConfig) => string | null
+  create: (config: TConfig) => ProductCatalog
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { encodeChatStream, readChatStream, type ChatStreamEvent } from "@/lib/chat-stream"
+import { AIServiceError } from "@/lib/errors"
+
+// A response whose body arrives in the given chunks, split wherever the test chooses
+function responseFromChunks(chunks: string[]) {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+  return new Response(body)
+}
+
+async function collect(response: Response) {
+  const events: ChatStreamEvent[] = []
+  for await (const event of readChatStream(response)) events.push(event)
+  return events
+}
+
+async function* fromArray(events: ChatStreamEvent[], error?: Error) {
+  yield* events
+  if (error) throw error
+}
+
+describe("readChatStream", () => {
+  it("reads one event per line", async () => {
+    const events = await collect(responseFromChunks(['{"type":"delta","text":"Hi"}\n{"type":"done"}\n']))
+    expect(events).toEqual([{ type: "delta", text: "Hi" }, { type: "done" }])
+  })
+
+  it("joins events split across chunks", async () => {
+    const events = await collect(responseFromChunks(['{"type":"del', 'ta","text":"He', 'llo"}\n{"type":', '"done"}\n']))
+    expect(events).toEqual([{ type: "delta", text: "Hello" }, { type: "done" }])
+  })
+
+  it("reads a last event without a trailing newline and skips blank lines", async () => {
+    const events = await collect(responseFromChunks(['\n{"type":"delta","text":"a"}\n\n', '{"type":"done"}']))
+    expect(events).toEqual([{ type: "delta", text: "a" }, { type: "done" }])
+  })
+
+  it("keeps multi-byte characters split between chunks", async () => {
+    const bytes = new TextEncoder().encode('{"type":"delta","text":"café"}\n')
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 28))
+        controller.enqueue(bytes.slice(28))
+        controller.close()
+      },
+    })
+    expect(await collect(new Response(body))).toEqual([{ type: "delta", text: "café" }])
+  })
+})
+
+describe("encodeChatStream", () => {
+  it("ends a successful stream with a done event", async () => {
+    const stream = encodeChatStream(fromArray([{ type: "delta", text: "Hi" }]))
+    expect(await collect(new Response(stream))).toEqual([{ type: "delta", text: "Hi" }, { type: "done" }])
+  })
+
+  it("ends a failed stream with a typed error event", async () => {
+    const stream = encodeChatStream(
+      fromArray([{ type: "delta", text: "Hi" }], new AIServiceError("rate_limited", "Too many requests")),
+    )
+    const events = await collect(new Response(stream))
+    expect(events[0]).toEqual({ type: "delta", text: "Hi" })
+    expect(events[1]).toMatchObject({ type: "error", code: "rate_limited" })
+    expect(events).toHaveLength(2)
+  })
+})
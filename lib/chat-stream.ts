@@ -0,0 +1,62 @@
+import { toAIServiceError, type AIErrorCode } from "@/lib/errors"
+
+// Wire format for streamed /api/chat responses, shared by the route and the GPT page.
+// The body is newline-delimited JSON, one event per line.
+export type ChatStreamEvent =
+  | { type: "delta"; text: string }
+  // Sent while the server retries a failed call, with the time left in the call budget
+  | { type: "retry"; attempt: number; remainingMs: number }
+  | { type: "done" }
+  | { type: "error"; code: AIErrorCode; message: string }
+
+export const CHAT_STREAM_CONTENT_TYPE = "application/x-ndjson; charset=utf-8"
+
+// Turns stream events into an NDJSON byte stream, ending with a done or error event
+export function encodeChatStream(events: AsyncIterable<ChatStreamEvent>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const encode = (event: ChatStreamEvent) => encoder.encode(`${JSON.stringify(event)}\n`)
+
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const event of events) {
+          controller.enqueue(encode(event))
+        }
+        controller.enqueue(encode({ type: "done" }))
+      } catch (error) {
+        const { code, message } = toAIServiceError(error)
+        controller.enqueue(encode({ type: "error", code, message }))
+      } finally {
+        controller.close()
+      }
+    },
+  })
+}
+
+// Reads the events of a streamed /api/chat response as they arrive
+export async function* readChatStream(response: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() ?? ""
+
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as ChatStreamEvent
+      }
+    }
+
+    if (buffer.trim()) yield JSON.parse(buffer) as ChatStreamEvent
+  } finally {
+    reader.releaseLock()
+  }
+}
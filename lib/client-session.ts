@@ -0,0 +1,45 @@
+import { AIServiceError } from "@/lib/errors"
+
+// Random id for this browser tab, sent with API requests so the server logs can tell sessions apart
+export const SESSION_HEADER = "X-Session-Id"
+
+const STORAGE_KEY = "vission-assist-session-id"
+
+let sessionId: string | null = null
+
+export function getClientSessionId() {
+  if (sessionId) return sessionId
+
+  try {
+    sessionId = sessionStorage.getItem(STORAGE_KEY)
+    if (!sessionId) {
+      sessionId = crypto.randomUUID()
+      sessionStorage.setItem(STORAGE_KEY, sessionId)
+    }
+  } catch {
+    // Storage can be unavailable in private browsing, an id for this page load is enough
+    sessionId ??= crypto.randomUUID()
+  }
+
+  return sessionId
+}
+
+// When each route asked this session to hold off until, so the pages do not send requests bound to fail
+const blockedUntil = new Map<string, number>()
+
+// Throws the rate_limited error again locally while the server's Retry-After is still running
+export function assertNotRateLimited(route: string) {
+  const remainingMs = (blockedUntil.get(route) ?? 0) - Date.now()
+  if (remainingMs > 0) {
+    throw new AIServiceError("rate_limited", "Waiting for the rate limit to reset", {
+      retryAfterSeconds: Math.ceil(remainingMs / 1000),
+    })
+  }
+}
+
+// Remembers the wait a rate_limited error asked for
+export function noteRateLimit(route: string, error: AIServiceError) {
+  if (error.code === "rate_limited" && error.retryAfterSeconds) {
+    blockedUntil.set(route, Date.now() + error.retryAfterSeconds * 1000)
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import {
+  describeColorReport,
+  describeMeasuredColors,
+  matchOutfit,
+  shadeName,
+  type ColorItem,
+  type MeasuredColor,
+} from "@/lib/color"
+
+function measured(name: string, hue: number, saturation: number, lightness: number): MeasuredColor {
+  return { name, hex: "#000000", share: 1, hue, saturation, lightness }
+}
+
+function item(colors: string[], ...shades: MeasuredColor[]): ColorItem {
+  return { report: { item: "shirt", colors, pattern: null }, measured: shades }
+}
+
+const RED = measured("red", 0, 0.8, 0.5)
+const ORANGE = measured("orange", 30, 0.9, 0.5)
+const YELLOW = measured("yellow", 55, 0.9, 0.5)
+const GREEN = measured("green", 120, 0.8, 0.5)
+const BLUE = measured("blue", 220, 0.8, 0.5)
+const NAVY = measured("blue", 230, 0.6, 0.25)
+
+describe("shadeName", () => {
+  it("says light or dark only when the shade is clearly so", () => {
+    expect(shadeName(measured("blue", 220, 0.8, 0.8))).toBe("light blue")
+    expect(shadeName(measured("blue", 220, 0.8, 0.2))).toBe("dark blue")
+    expect(shadeName(BLUE)).toBe("blue")
+  })
+
+  it("leaves black, white and gray alone", () => {
+    expect(shadeName(measured("gray", 0, 0, 0.8))).toBe("gray")
+    expect(shadeName(measured("white", 0, 0, 0.95))).toBe("white")
+    expect(shadeName(measured("black", 0, 0, 0.05))).toBe("black")
+  })
+})
+
+describe("describeColorReport", () => {
+  it("lists the colors and the pattern", () => {
+    const report = { item: "shirt", colors: ["navy blue", "white"], pattern: "striped" }
+    expect(describeColorReport(report)).toBe("Shirt: navy blue and white, striped.")
+  })
+
+  it("says so when no color could be told", () => {
+    expect(describeColorReport({ item: "mug", colors: [], pattern: null })).toBe("Mug, I could not tell its color.")
+  })
+})
+
+describe("describeMeasuredColors", () => {
+  it("is labeled as an on-device check", () => {
+    expect(describeMeasuredColors([RED, measured("blue", 220, 0.8, 0.8)])).toBe(
+      "On-device check only: mostly red, then light blue.",
+    )
+    expect(describeMeasuredColors([])).toBe("On-device check only: I could not measure the color.")
+  })
+})
+
+describe("matchOutfit", () => {
+  it("matches anything with a neutral color such as navy", () => {
+    const result = matchOutfit(item(["navy blue"], NAVY), item(["red"], RED))
+    expect(result.matches).toBe(true)
+    expect(result.reason).toBe("These match. Navy blue goes with almost anything.")
+  })
+
+  it("matches similar and neighboring colors, across the red end of the hue circle", () => {
+    expect(matchOutfit(item(["red"], RED), item(["orange"], ORANGE)).reason).toContain("similar colors")
+    expect(matchOutfit(item(["red"], RED), item(["yellow"], YELLOW)).reason).toContain("neighboring colors")
+    const wineRed = measured("red", 350, 0.8, 0.5)
+    const tomatoRed = measured("red", 10, 0.8, 0.5)
+    expect(matchOutfit(item([], wineRed), item([], tomatoRed)).reason).toContain("similar colors")
+  })
+
+  it("allows bold contrasts", () => {
+    const result = matchOutfit(item(["blue"], BLUE), item(["orange"], ORANGE))
+    expect(result).toEqual({ matches: true, reason: "These can match. Blue and orange are bold contrasting colors." })
+  })
+
+  it("warns about colors that clash", () => {
+    const result = matchOutfit(item(["red"], RED), item(["green"], GREEN))
+    expect(result).toEqual({ matches: false, reason: "These may clash. Red and green do not usually go together." })
+  })
+
+  it("uses the measured shade when the model named no color", () => {
+    expect(matchOutfit(item([], RED), item([], GREEN)).reason).toBe(
+      "These may clash. Red and green do not usually go together.",
+    )
+  })
+
+  it("does not guess without measured colors", () => {
+    expect(matchOutfit(item(["red"]), item(["green"], GREEN)).matches).toBeNull()
+  })
+})
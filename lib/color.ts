@@ -0,0 +1,147 @@
+import { colorName, samplePixels, type PixelSource } from "@/lib/image-checks"
+import type { ColorReport } from "@/lib/schemas"
+
+// Color mode: the dominant colors of the center of the frame are measured on the device and sent along,
+// the model names the item and its colors. The measured colors also decide whether two items match.
+
+export interface MeasuredColor {
+  // Basic name from lib/image-checks, such as "blue"
+  name: string
+  hex: string
+  // Fraction of the center region with this color
+  share: number
+  // Hue in degrees, saturation and lightness from 0 to 1
+  hue: number
+  saturation: number
+  lightness: number
+}
+
+// One item captured in color mode, kept to compare with the next one
+export interface ColorItem {
+  report: ColorReport
+  measured: MeasuredColor[]
+}
+
+// The center region measured, as a fraction of the frame width and height
+const CENTER_FRACTION = 0.4
+// Colors covering less of the center than this are ignored
+const MIN_COLOR_SHARE = 0.15
+
+function toHex(r: number, g: number, b: number) {
+  return `#${[r, g, b].map((value) => Math.round(value).toString(16).padStart(2, "0")).join("")}`
+}
+
+function toHsl(r: number, g: number, b: number) {
+  const max = Math.max(r, g, b) / 255
+  const min = Math.min(r, g, b) / 255
+  const lightness = (max + min) / 2
+  const delta = max - min
+  if (delta === 0) return { hue: 0, saturation: 0, lightness }
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1))
+  let hue = 0
+  if (max === r / 255) hue = ((g - b) / 255 / delta) % 6
+  else if (max === g / 255) hue = (b - r) / 255 / delta + 2
+  else hue = (r - g) / 255 / delta + 4
+
+  return { hue: (hue * 60 + 360) % 360, saturation, lightness }
+}
+
+// Dominant colors of the center of the frame, most common first, with their average shade
+export function measureCenterColors(source: PixelSource): MeasuredColor[] {
+  const image = samplePixels(source)
+  if (!image) return []
+
+  const { data, width, height } = image
+  const left = Math.floor((width * (1 - CENTER_FRACTION)) / 2)
+  const top = Math.floor((height * (1 - CENTER_FRACTION)) / 2)
+  const right = width - left
+  const bottom = height - top
+
+  const buckets = new Map<string, { count: number; r: number; g: number; b: number }>()
+  let total = 0
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const i = (y * width + x) * 4
+      const name = colorName(data[i], data[i + 1], data[i + 2])
+      const bucket = buckets.get(name) ?? { count: 0, r: 0, g: 0, b: 0 }
+      bucket.count++
+      bucket.r += data[i]
+      bucket.g += data[i + 1]
+      bucket.b += data[i + 2]
+      buckets.set(name, bucket)
+      total++
+    }
+  }
+
+  return [...buckets.entries()]
+    .filter(([, bucket]) => bucket.count / total >= MIN_COLOR_SHARE)
+    .sort((a, b) => b[1].count - a[1].count)
+    .slice(0, 3)
+    .map(([name, { count, r, g, b }]) => {
+      const average = [r / count, g / count, b / count] as const
+      return { name, hex: toHex(...average), share: count / total, ...toHsl(...average) }
+    })
+}
+
+// "Light blue" or "dark blue" when the shade is clearly light or dark
+export function shadeName(color: MeasuredColor) {
+  if (color.name === "black" || color.name === "white" || color.name === "gray") return color.name
+  if (color.lightness > 0.7) return `light ${color.name}`
+  if (color.lightness < 0.3) return `dark ${color.name}`
+  return color.name
+}
+
+// "Shirt: navy blue and white, striped."
+export function describeColorReport(report: ColorReport) {
+  if (report.colors.length === 0) return `${capitalize(report.item)}, I could not tell its color.`
+  const pattern = report.pattern ? `, ${report.pattern}` : ""
+  return `${capitalize(report.item)}: ${report.colors.join(" and ")}${pattern}.`
+}
+
+// Spoken when the AI service cannot be reached, always labeled as an on-device check
+export function describeMeasuredColors(measured: MeasuredColor[]) {
+  if (measured.length === 0) return "On-device check only: I could not measure the color."
+  return `On-device check only: mostly ${measured.map(shadeName).join(", then ")}.`
+}
+
+function capitalize(text: string) {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+// Black, white, gray, navy and earth tones go with almost anything
+function isNeutral(color: MeasuredColor) {
+  if (color.saturation < 0.2 || color.lightness < 0.15 || color.lightness > 0.9) return true
+  if (color.hue >= 200 && color.hue < 250 && color.lightness < 0.3) return true
+  return color.hue >= 20 && color.hue < 50 && color.saturation < 0.5
+}
+
+// Whether two items go together, judged on their main colors with simple color harmony rules
+export function matchOutfit(first: ColorItem, second: ColorItem) {
+  const a = first.measured[0]
+  const b = second.measured[0]
+  const nameA = first.report.colors[0] ?? (a ? shadeName(a) : "the first item")
+  const nameB = second.report.colors[0] ?? (b ? shadeName(b) : "the second item")
+
+  if (!a || !b) {
+    return { matches: null, reason: "I could not measure the colors well enough to compare them." }
+  }
+
+  if (isNeutral(a) || isNeutral(b)) {
+    const neutral = isNeutral(a) ? nameA : nameB
+    return { matches: true, reason: `These match. ${capitalize(neutral)} goes with almost anything.` }
+  }
+
+  const difference = Math.min(Math.abs(a.hue - b.hue), 360 - Math.abs(a.hue - b.hue))
+  if (difference <= 30) {
+    return { matches: true, reason: `These match. ${capitalize(nameA)} and ${nameB} are similar colors.` }
+  }
+  if (difference <= 60) {
+    return { matches: true, reason: `These match. ${capitalize(nameA)} and ${nameB} are neighboring colors.` }
+  }
+  if (difference >= 150) {
+    return { matches: true, reason: `These can match. ${capitalize(nameA)} and ${nameB} are bold contrasting colors.` }
+  }
+  return { matches: false, reason: `These may clash. ${capitalize(nameA)} and ${nameB} do not usually go together.` }
+}
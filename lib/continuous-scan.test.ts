@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { findNewSentences, nextScanDelay } from "@/lib/continuous-scan"
+
+describe("nextScanDelay", () => {
+  it("goes back to the interval after a change", () => {
+    expect(nextScanDelay(12_000, 5000, { changed: true })).toBe(5000)
+  })
+
+  it("backs off while nothing changes, up to four times the interval", () => {
+    expect(nextScanDelay(5000, 5000, { changed: false })).toBe(7500)
+    expect(nextScanDelay(15_000, 5000, { changed: false })).toBe(20_000)
+    expect(nextScanDelay(20_000, 5000, { changed: false })).toBe(20_000)
+  })
+
+  it("waits at least as long as the server asked", () => {
+    expect(nextScanDelay(5000, 5000, { changed: true, retryAfterMs: 30_000 })).toBe(30_000)
+    expect(nextScanDelay(5000, 5000, { changed: true, retryAfterMs: 1000 })).toBe(5000)
+  })
+})
+
+describe("findNewSentences", () => {
+  const recent = ["A door is ahead of you.", "There is a chair on your left."]
+
+  it("drops sentences that repeat what was said recently, even reworded", () => {
+    const description =
+      "A door is straight ahead of you. There is a chair on your left. A person is walking towards you."
+    expect(findNewSentences(description, recent)).toEqual(["A person is walking towards you."])
+  })
+
+  it("keeps everything when nothing was said yet", () => {
+    expect(findNewSentences("A door is ahead. Steps go down.", [])).toEqual(["A door is ahead.", "Steps go down."])
+  })
+
+  it("keeps an unfinished last sentence", () => {
+    expect(findNewSentences("A door is ahead of you. Stairs going down", recent)).toEqual(["Stairs going down"])
+  })
+
+  it("finds nothing new in an empty description", () => {
+    expect(findNewSentences("", recent)).toEqual([])
+  })
+})
@@ -0,0 +1,55 @@
+import { takeCompleteSentences } from "@/lib/sentences"
+
+// Pure helpers for the continuous scan mode of the Video Analyzer (see hooks/use-continuous-scan)
+
+export const DEFAULT_SCAN_INTERVAL_SECONDS = 5
+export const MIN_SCAN_INTERVAL_SECONDS = 2
+export const MAX_SCAN_INTERVAL_SECONDS = 30
+// Consecutive failed frames after which continuous mode, or a search, gives up
+export const MAX_SCAN_FAILURES = 3
+
+// While nothing changes the interval grows by this factor, up to MAX_BACKOFF times the configured one
+const BACKOFF_FACTOR = 1.5
+const MAX_BACKOFF = 4
+
+// Sentences sharing at least this fraction of their words with one already spoken count as repeats
+const REPEAT_SIMILARITY = 0.6
+
+export interface ScanTickResult {
+  // True when the frame brought something worth saying
+  changed: boolean
+  // Set when the server asked us to slow down
+  retryAfterMs?: number
+}
+
+// Delay before the next frame: the configured interval after a change, longer while the scene stays the same
+export function nextScanDelay(previousDelayMs: number, intervalMs: number, result: ScanTickResult) {
+  const delay = result.changed ? intervalMs : Math.min(previousDelayMs * BACKOFF_FACTOR, intervalMs * MAX_BACKOFF)
+  return Math.max(delay, result.retryAfterMs ?? 0)
+}
+
+function words(sentence: string) {
+  return new Set(sentence.toLowerCase().match(/[a-z0-9']+/g) ?? [])
+}
+
+// Jaccard similarity of the word sets of two sentences
+function similarity(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const word of a) {
+    if (b.has(word)) shared++
+  }
+  return shared / (a.size + b.size - shared)
+}
+
+// Sentences of a new description that do not repeat anything said recently
+export function findNewSentences(description: string, recentSentences: string[]) {
+  const { sentences, rest } = takeCompleteSentences(description)
+  if (rest.trim()) sentences.push(rest.trim())
+
+  const recent = recentSentences.map(words)
+  return sentences.filter((sentence) => {
+    const sentenceWords = words(sentence)
+    return recent.every((spoken) => similarity(sentenceWords, spoken) < REPEAT_SIMILARITY)
+  })
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { describeCurrency, formatAmount, isConfidentNote } from "@/lib/currency"
+import type { CurrencyNote } from "@/lib/schemas"
+
+const note = (denomination: number, currency = "EUR", confidence = 0.95): CurrencyNote => ({
+  currency,
+  denomination,
+  confidence,
+})
+
+describe("formatAmount", () => {
+  it("uses the singular name for one and the plural otherwise", () => {
+    expect(formatAmount(1, "USD")).toBe("1 US dollar")
+    expect(formatAmount(20, "EUR")).toBe("20 euros")
+  })
+
+  it("spells out the code of currencies without a spoken name", () => {
+    expect(formatAmount(50, "SEK")).toBe("50 S E K")
+  })
+
+  it("rounds to cents", () => {
+    expect(formatAmount(0.1 + 0.2, "GBP")).toBe("0.3 pounds")
+  })
+})
+
+describe("isConfidentNote", () => {
+  it("accepts notes at or above the minimum confidence only", () => {
+    expect(isConfidentNote(note(10, "EUR", 0.8))).toBe(true)
+    expect(isConfidentNote(note(10, "EUR", 0.79))).toBe(false)
+  })
+})
+
+describe("describeCurrency", () => {
+  it("names a single note", () => {
+    expect(describeCurrency([note(20)])).toBe("20 euros.")
+  })
+
+  it("lists several notes with their total", () => {
+    expect(describeCurrency([note(20), note(10), note(5)])).toBe(
+      "3 notes: 20 euros, 10 euros, 5 euros. Total 35 euros.",
+    )
+  })
+
+  it("totals each currency separately", () => {
+    expect(describeCurrency([note(20), note(10, "USD"), note(5)])).toBe(
+      "3 notes: 20 euros, 10 US dollars, 5 euros. Total 25 euros and 10 US dollars.",
+    )
+  })
+
+  it("gives no total when a note could not be identified", () => {
+    expect(describeCurrency([note(20), note(50, "EUR", 0.4)])).toBe(
+      "20 euros. I could not identify 1 other note, so no total.",
+    )
+  })
+
+  it("never guesses a value when no note is confident", () => {
+    expect(describeCurrency([note(100, "EUR", 0.5)])).toMatch(/^I'm not sure about this money/)
+  })
+
+  it("says when there is no banknote", () => {
+    expect(describeCurrency([])).toMatch(/^I don't see any banknotes/)
+  })
+})
@@ -0,0 +1,70 @@
+import type { CurrencyNote } from "@/lib/schemas"
+
+// Turns the structured report of currency mode into one short fixed phrase, the same on the server and the page
+
+// Notes the model is less sure about than this are reported as unidentified, never as a value
+export const MIN_CURRENCY_CONFIDENCE = 0.8
+
+// Spoken names, singular and plural, of common currencies. Others are spelled out by their code.
+const CURRENCY_NAMES: Record<string, [string, string]> = {
+  USD: ["US dollar", "US dollars"],
+  EUR: ["euro", "euros"],
+  GBP: ["pound", "pounds"],
+  CAD: ["Canadian dollar", "Canadian dollars"],
+  AUD: ["Australian dollar", "Australian dollars"],
+  NZD: ["New Zealand dollar", "New Zealand dollars"],
+  CHF: ["Swiss franc", "Swiss francs"],
+  JPY: ["yen", "yen"],
+  CNY: ["yuan", "yuan"],
+  INR: ["rupee", "rupees"],
+  MXN: ["peso", "pesos"],
+  BRL: ["real", "reais"],
+  ZAR: ["rand", "rand"],
+}
+
+export function isConfidentNote(note: CurrencyNote) {
+  return note.confidence >= MIN_CURRENCY_CONFIDENCE
+}
+
+// "20 euros", or "20 S E K" for currencies without a spoken name
+export function formatAmount(amount: number, currency: string) {
+  const rounded = Math.round(amount * 100) / 100
+  const names = CURRENCY_NAMES[currency]
+  const name = names ? names[rounded === 1 ? 0 : 1] : currency.split("").join(" ")
+  return `${rounded} ${name}`
+}
+
+// Totals per currency, in the order the currencies first appear
+export function currencyTotals(notes: CurrencyNote[]) {
+  const totals = new Map<string, number>()
+  for (const note of notes) {
+    totals.set(note.currency, (totals.get(note.currency) ?? 0) + note.denomination)
+  }
+  return [...totals].map(([currency, amount]) => formatAmount(amount, currency))
+}
+
+// "20 euros." for one note, "3 notes: 20 euros, 10 euros, 5 euros. Total 35 euros." for several.
+// No total is given when any note could not be identified, since it would be wrong.
+export function describeCurrency(notes: CurrencyNote[]) {
+  const confident = notes.filter(isConfidentNote)
+  const unsure = notes.length - confident.length
+
+  if (notes.length === 0) {
+    return "I don't see any banknotes. Hold the note flat, about 20 centimeters from the camera."
+  }
+
+  if (confident.length === 0) {
+    return "I'm not sure about this money, so I won't guess. Turn the note over or add more light, and try again."
+  }
+
+  const amounts = confident.map((note) => formatAmount(note.denomination, note.currency))
+  const parts = confident.length === 1 ? [`${amounts[0]}.`] : [`${confident.length} notes: ${amounts.join(", ")}.`]
+
+  if (unsure > 0) {
+    parts.push(`I could not identify ${unsure} other note${unsure === 1 ? "" : "s"}, so no total.`)
+  } else if (confident.length > 1) {
+    parts.push(`Total ${currencyTotals(confident).join(" and ")}.`)
+  }
+
+  return parts.join(" ")
+}
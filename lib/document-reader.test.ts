@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import { findWord, movePosition, pageConversationText } from "@/lib/document-reader"
+import { chatMessageSchema, MAX_HISTORY_MESSAGE_LENGTH, MAX_MESSAGE_LENGTH, type DocumentPage } from "@/lib/schemas"
+
+function page(...texts: string[]): DocumentPage {
+  return { blocks: texts.map((text) => ({ kind: "paragraph", text })), cutOff: false }
+}
+
+describe("pageConversationText", () => {
+  it("keeps a short page whole", () => {
+    expect(pageConversationText(page("Dear Anna,", "Thank you."))).toBe("Dear Anna,\nThank you.")
+  })
+
+  it("cuts a long page after a whole block so follow-up questions stay valid", () => {
+    const blocks = Array.from({ length: 20 }, (_, i) => `${i}`.repeat(MAX_MESSAGE_LENGTH / 2))
+    const text = pageConversationText(page(...blocks))
+
+    expect(text.length).toBeLessThanOrEqual(MAX_HISTORY_MESSAGE_LENGTH)
+    expect(text).toMatch(/read it from the picture\.\]$/)
+    expect(
+      text
+        .split("\n")
+        .slice(0, -1)
+        .every((line) => blocks.includes(line)),
+    ).toBe(true)
+    expect(chatMessageSchema.safeParse({ role: "assistant", content: text }).success).toBe(true)
+  })
+})
+
+describe("movePosition", () => {
+  const pages = [page("a", "b"), page(), page("c")]
+
+  it("continues across pages and skips pages without text", () => {
+    expect(movePosition(pages, { page: 0, block: 1 }, 1)).toEqual({ page: 2, block: 0 })
+    expect(movePosition(pages, { page: 2, block: 0 }, -1)).toEqual({ page: 0, block: 1 })
+  })
+
+  it("stops at either end of the document", () => {
+    expect(movePosition(pages, { page: 2, block: 0 }, 1)).toBeNull()
+    expect(movePosition(pages, { page: 0, block: 0 }, -1)).toBeNull()
+  })
+})
+
+describe("findWord", () => {
+  it("finds the closest word to what was said", () => {
+    expect(findWord("Signed by Katharine Smith", "catherine")).toBe("Katharine")
+    expect(findWord("Signed by Katharine Smith", "elephant")).toBeNull()
+  })
+})
@@ -0,0 +1,110 @@
+import { MAX_HISTORY_MESSAGE_LENGTH, type DocumentBlock, type DocumentPage } from "@/lib/schemas"
+
+// Voice navigation through a document read page by page in document mode.
+// Positions are zero-based, spoken page numbers start at 1.
+
+export interface DocumentPosition {
+  page: number
+  block: number
+}
+
+export function blockAt(pages: DocumentPage[], position: DocumentPosition): DocumentBlock | undefined {
+  return pages[position.page]?.blocks[position.block]
+}
+
+// The block `step` blocks away, continuing across pages and skipping pages without text.
+// Null past either end of the document.
+export function movePosition(pages: DocumentPage[], position: DocumentPosition, step: 1 | -1) {
+  let { page, block } = position
+  block += step
+
+  while (page >= 0 && page < pages.length) {
+    if (block >= 0 && block < pages[page].blocks.length) return { page, block }
+
+    page += step
+    if (page < 0 || page >= pages.length) break
+    block = step > 0 ? 0 : pages[page].blocks.length - 1
+  }
+
+  return null
+}
+
+// First block of a page, or null when the page does not exist or has no text
+export function pageStart(pages: DocumentPage[], page: number): DocumentPosition | null {
+  return pages[page]?.blocks.length ? { page, block: 0 } : null
+}
+
+// How a block is read out, with its kind when that helps following the structure
+export function speakableBlock(block: DocumentBlock) {
+  if (block.kind === "heading") return `Heading: ${block.text}`
+  if (block.kind === "list_item") return `Item: ${block.text}`
+  return block.text
+}
+
+// The page text that opens the follow-up conversation about the page. Long pages are cut after the last block
+// that fits the history limit, the model still has the picture for the rest.
+export function pageConversationText(page: DocumentPage) {
+  const note = "\n[The rest of the page is not repeated here, read it from the picture.]"
+  let text = ""
+
+  for (const block of page.blocks) {
+    const next = text ? `${text}\n${block.text}` : block.text
+    if (next.length > MAX_HISTORY_MESSAGE_LENGTH - note.length) return `${text}${note}`
+    text = next
+  }
+  return text
+}
+
+// Announced after a page is read
+export function describePage(page: DocumentPage, pageNumber: number) {
+  if (page.blocks.length === 0) {
+    return `I could not find any text on page ${pageNumber}. Try again with more light or closer to the page.`
+  }
+
+  const headings = page.blocks.filter((block) => block.kind === "heading").length
+  const parts = [
+    `Page ${pageNumber} read: ${page.blocks.length} block${page.blocks.length === 1 ? "" : "s"}`,
+    headings ? ` including ${headings} heading${headings === 1 ? "" : "s"}` : "",
+    ".",
+    page.cutOff ? " Some text runs off the edge of the picture, you may want to capture this page again." : "",
+  ]
+  return parts.join("")
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// The word of the text closest to what the user said, since speech recognition often spells names differently
+export function findWord(text: string, spoken: string) {
+  const target = spoken.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "")
+  if (!target) return null
+
+  let best: string | null = null
+  let bestDistance = Number.POSITIVE_INFINITY
+  for (const word of text.match(/[\p{L}\p{N}'-]+/gu) ?? []) {
+    const distance = editDistance(word.toLowerCase(), target)
+    if (distance < bestDistance) {
+      best = word
+      bestDistance = distance
+    }
+  }
+
+  // Allow about one mistake per three letters
+  return bestDistance <= Math.max(1, Math.floor(target.length / 3)) ? best : null
+}
+
+// "Smith" becomes "capital S, m, i, t, h"
+export function spellWord(word: string) {
+  return [...word]
+    .map((letter) => (letter !== letter.toLowerCase() ? `capital ${letter}` : letter === "-" ? "dash" : letter))
+    .join(", ")
+}
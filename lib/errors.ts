@@ -0,0 +1,138 @@
+// Error taxonomy for model calls, shared by the API routes and the client pages.
+// Routes send the code as `code` in JSON error bodies (and in stream error events),
+// and the pages turn it into a spoken, actionable message.
+export type AIErrorCode =
+  | "auth"
+  | "rate_limited"
+  | "safety_blocked"
+  | "invalid_input"
+  | "payload_too_large"
+  | "upstream_timeout"
+  | "upstream_error"
+  | "not_configured"
+
+const ERROR_CODES: AIErrorCode[] = [
+  "auth",
+  "rate_limited",
+  "safety_blocked",
+  "invalid_input",
+  "payload_too_large",
+  "upstream_timeout",
+  "upstream_error",
+  "not_configured",
+]
+
+// HTTP status the routes respond with for each code
+export const ERROR_STATUS: Record<AIErrorCode, number> = {
+  auth: 502,
+  rate_limited: 429,
+  safety_blocked: 422,
+  invalid_input: 400,
+  payload_too_large: 413,
+  upstream_timeout: 504,
+  upstream_error: 502,
+  not_configured: 503,
+}
+
+export class AIServiceError extends Error {
+  code: AIErrorCode
+  // Seconds the caller should wait before retrying, when the upstream told us
+  retryAfterSeconds?: number
+
+  constructor(code: AIErrorCode, message: string, options: { cause?: unknown; retryAfterSeconds?: number } = {}) {
+    super(message)
+    this.name = "AIServiceError"
+    this.code = code
+    this.cause = options.cause
+    this.retryAfterSeconds = options.retryAfterSeconds
+  }
+}
+
+export function isAIErrorCode(value: unknown): value is AIErrorCode {
+  return typeof value === "string" && ERROR_CODES.includes(value as AIErrorCode)
+}
+
+// Maps an upstream HTTP status to our taxonomy
+export function errorCodeFromStatus(status: number): AIErrorCode {
+  if (status === 401 || status === 403) return "auth"
+  if (status === 429) return "rate_limited"
+  if (status === 408 || status === 504) return "upstream_timeout"
+  if (status === 400 || status === 413 || status === 415 || status === 422) return "invalid_input"
+  return "upstream_error"
+}
+
+// Wraps anything thrown by a provider so callers only ever see AIServiceError
+export function toAIServiceError(error: unknown): AIServiceError {
+  if (error instanceof AIServiceError) return error
+
+  if (error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")) {
+    return new AIServiceError("upstream_timeout", "The AI service took too long to respond", { cause: error })
+  }
+
+  return new AIServiceError("upstream_error", error instanceof Error ? error.message : "Unknown error", {
+    cause: error,
+  })
+}
+
+// Reads a Retry-After header given in seconds (HTTP dates are ignored)
+export function parseRetryAfter(response: Response) {
+  const seconds = Number(response.headers.get("retry-after"))
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined
+}
+
+// Rebuilds the error described by a JSON error body returned by one of our routes
+export function errorFromBody(
+  body: { code?: unknown; error?: string; message?: string } | null,
+  retryAfterSeconds?: number,
+) {
+  const code = body && isAIErrorCode(body.code) ? body.code : "upstream_error"
+  return new AIServiceError(code, body?.message || body?.error || "Request failed", { retryAfterSeconds })
+}
+
+// Rebuilds the error from a failed response of one of our routes, including its Retry-After
+export async function errorFromResponse(response: Response) {
+  return errorFromBody(await response.json().catch(() => null), parseRetryAfter(response))
+}
+
+// Spoken messages for each code, worded for the page the user is on
+export const ERROR_MESSAGES: Record<"chat" | "image", Record<AIErrorCode, string>> = {
+  chat: {
+    auth: "The assistant could not sign in to the AI service. Please ask the app administrator to check the API key.",
+    rate_limited: "The assistant is getting too many requests right now. Please wait a minute and ask again.",
+    safety_blocked: "The AI service declined to answer that for safety reasons. Please try rephrasing your question.",
+    invalid_input: "I could not understand that request. Please try asking in a different way.",
+    payload_too_large: "That request is too long. Please ask in fewer words.",
+    upstream_timeout: "The AI service took too long to answer. Please ask again.",
+    upstream_error: "The AI service had a problem answering. Please try again in a moment.",
+    not_configured: "The assistant is not set up yet. Please ask the app administrator to configure an AI provider.",
+  },
+  image: {
+    auth: "Image analysis could not sign in to the AI service. Please ask the app administrator to check the API key.",
+    rate_limited:
+      "Image analysis is getting too many requests right now. Please wait a minute and take another picture.",
+    safety_blocked:
+      "The AI service declined to describe this image for safety reasons. Try pointing the camera somewhere else.",
+    invalid_input: "The picture could not be read. Please hold the phone steady and take another picture.",
+    payload_too_large: "The picture is too large to send. Please take it again, or choose a smaller photo.",
+    upstream_timeout: "Image analysis took too long. Please take another picture.",
+    upstream_error: "Image analysis is not available right now. Please try again in a moment.",
+    not_configured: "Image analysis is not set up yet. Please ask the app administrator to configure an AI provider.",
+  },
+}
+
+// Used instead of the rate_limited message when the server said how long to wait
+function describeWait(context: "chat" | "image", retryAfterSeconds: number) {
+  const seconds = Math.ceil(retryAfterSeconds)
+  const wait = `Please wait ${seconds} second${seconds === 1 ? "" : "s"}`
+  return context === "chat"
+    ? `The assistant is getting too many requests right now. ${wait} and ask again.`
+    : `Image analysis is getting too many requests right now. ${wait} and take another picture.`
+}
+
+// Picks the spoken message for an error caught on one of the pages
+export function describeError(context: "chat" | "image", error: unknown) {
+  if (error instanceof AIServiceError && error.code === "rate_limited" && error.retryAfterSeconds) {
+    return describeWait(context, error.retryAfterSeconds)
+  }
+  return ERROR_MESSAGES[context][error instanceof AIServiceError ? error.code : "upstream_error"]
+}
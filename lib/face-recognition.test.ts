@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest"
+import {
+  descriptorDistance,
+  FACE_SIZE,
+  isConsistentEnrollment,
+  lbpDescriptor,
+  MATCH_MARGIN,
+  MATCH_THRESHOLD,
+  matchFace,
+  SINGLE_PERSON_THRESHOLD,
+} from "@/lib/face-recognition"
+
+// The chi-square distance from an all-zero descriptor is the sum of the other one,
+// so a one-value sample sits exactly that far from the probe
+const probe = [0]
+const person = (name: string, ...distances: number[]) => ({ name, descriptors: distances.map((d) => [d]) })
+
+// A grayscale face with a pattern, shifted in brightness
+function face(brightness = 0) {
+  return Array.from({ length: FACE_SIZE * FACE_SIZE }, (_, i) => ((i * 37) % 101) + brightness)
+}
+
+describe("matchFace", () => {
+  it("names the closest person within the threshold", () => {
+    const anna = person("Anna", MATCH_THRESHOLD - 0.5)
+    expect(matchFace(probe, [anna, person("Ben", MATCH_THRESHOLD + 1)])).toBe(anna)
+  })
+
+  it("names nobody beyond the threshold", () => {
+    expect(matchFace(probe, [person("Anna", MATCH_THRESHOLD + 0.1), person("Ben", MATCH_THRESHOLD + 2)])).toBeNull()
+  })
+
+  it("holds a single enrolled person to the stricter threshold", () => {
+    const anna = person("Anna", SINGLE_PERSON_THRESHOLD - 0.1)
+    expect(matchFace(probe, [anna])).toBe(anna)
+    expect(SINGLE_PERSON_THRESHOLD).toBeLessThan(MATCH_THRESHOLD)
+    expect(matchFace(probe, [person("Anna", SINGLE_PERSON_THRESHOLD + 0.1)])).toBeNull()
+  })
+
+  it("names nobody when two people are about as close", () => {
+    const people = [person("Anna", 1), person("Ben", 1 + MATCH_MARGIN / 2)]
+    expect(matchFace(probe, people)).toBeNull()
+  })
+
+  it("uses the closest of each person's photos", () => {
+    const anna = person("Anna", MATCH_THRESHOLD + 3, 1)
+    expect(matchFace(probe, [anna, person("Ben", MATCH_THRESHOLD + 1)])).toBe(anna)
+  })
+
+  it("names nobody when nobody is enrolled", () => {
+    expect(matchFace(probe, [])).toBeNull()
+  })
+})
+
+describe("lbpDescriptor", () => {
+  it("gives one normalized histogram per cell", () => {
+    const descriptor = lbpDescriptor(face())
+    const cells = descriptor.length / 59
+    expect(cells).toBe(16)
+    for (let cell = 0; cell < cells; cell++) {
+      const total = descriptor.slice(cell * 59, (cell + 1) * 59).reduce((sum, value) => sum + value, 0)
+      expect(total).toBeCloseTo(1)
+    }
+  })
+
+  it("does not change with the overall brightness", () => {
+    expect(descriptorDistance(lbpDescriptor(face()), lbpDescriptor(face(40)))).toBe(0)
+  })
+
+  it("tells a flat patch from a textured one", () => {
+    const flat = lbpDescriptor(Array(FACE_SIZE * FACE_SIZE).fill(128))
+    expect(descriptorDistance(flat, lbpDescriptor(face()))).toBeGreaterThan(MATCH_THRESHOLD)
+  })
+})
+
+describe("isConsistentEnrollment", () => {
+  it("accepts photos of the same face and rejects a different one among them", () => {
+    const same = lbpDescriptor(face())
+    expect(isConsistentEnrollment([same, same, lbpDescriptor(face(20))])).toBe(true)
+
+    const other = lbpDescriptor(Array(FACE_SIZE * FACE_SIZE).fill(128))
+    expect(isConsistentEnrollment([same, same, other])).toBe(false)
+  })
+})
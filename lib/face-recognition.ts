@@ -0,0 +1,180 @@
+// Known-people recognition, computed entirely on the device. Faces are found with the browser's FaceDetector,
+// and where it does not exist nobody is enrolled or named: guessing a face in the frame would name strangers.
+// Each face becomes a descriptor of local binary pattern histograms, a classic recognizer that needs no model:
+// it works best in good light with the face filling much of the frame, and may miss people rather than misname them.
+
+export interface FaceBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Not yet in the TypeScript DOM types
+interface FaceDetectorLike {
+  detect: (source: CanvasImageSource) => Promise<{ boundingBox: DOMRectReadOnly }[]>
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike
+
+// Side of the square the face is scaled to before its descriptor is computed
+export const FACE_SIZE = 64
+// The face is split into GRID x GRID cells with one histogram each
+const GRID = 4
+// Faces smaller than this in the frame, in pixels, are too coarse to tell people apart and are skipped
+const MIN_FACE_SIZE = 80
+// Descriptors further apart than this never match. Kept low, so an unclear face names nobody
+// rather than the wrong person.
+export const MATCH_THRESHOLD = 4
+// With one person enrolled there is nobody to compare the best match with, so it must be closer still
+export const SINGLE_PERSON_THRESHOLD = 3
+// The best person must be closer than the next one by this much, otherwise nobody is named
+export const MATCH_MARGIN = 0.5
+
+function getFaceDetector(): FaceDetectorConstructor | undefined {
+  if (typeof window === "undefined") return undefined
+  return (window as unknown as { FaceDetector?: FaceDetectorConstructor }).FaceDetector
+}
+
+// Whether this browser can find faces. Without it people recognition is not available.
+export function canDetectFaces() {
+  return getFaceDetector() !== undefined
+}
+
+// The faces large enough to recognize in the frame. None when the browser cannot find faces.
+export async function findFaces(canvas: HTMLCanvasElement): Promise<FaceBox[]> {
+  const FaceDetector = getFaceDetector()
+  if (!FaceDetector) return []
+
+  try {
+    const faces = await new FaceDetector({ maxDetectedFaces: 5 }).detect(canvas)
+    return faces
+      .map(({ boundingBox }) => ({
+        x: boundingBox.x,
+        y: boundingBox.y,
+        width: boundingBox.width,
+        height: boundingBox.height,
+      }))
+      .filter((face) => Math.min(face.width, face.height) >= MIN_FACE_SIZE)
+  } catch (error) {
+    console.warn("FaceDetector failed:", error)
+    return []
+  }
+}
+
+// Bit patterns with at most two 0/1 transitions around the circle get their own bin, all others share one
+const UNIFORM_BINS = (() => {
+  const bins = new Array<number>(256).fill(58)
+  let next = 0
+  for (let pattern = 0; pattern < 256; pattern++) {
+    let transitions = 0
+    for (let bit = 0; bit < 8; bit++) {
+      if (((pattern >> bit) & 1) !== ((pattern >> ((bit + 1) % 8)) & 1)) transitions++
+    }
+    if (transitions <= 2) bins[pattern] = next++
+  }
+  return bins
+})()
+
+const BIN_COUNT = 59
+
+// Grayscale face scaled to FACE_SIZE, with its histogram equalized so lighting matters less
+function faceLuminance(canvas: HTMLCanvasElement, box: FaceBox) {
+  const face = document.createElement("canvas")
+  face.width = FACE_SIZE
+  face.height = FACE_SIZE
+
+  const context = face.getContext("2d")
+  if (!context) return null
+  context.drawImage(canvas, box.x, box.y, box.width, box.height, 0, 0, FACE_SIZE, FACE_SIZE)
+  const { data } = context.getImageData(0, 0, FACE_SIZE, FACE_SIZE)
+
+  const luminance = new Uint8Array(FACE_SIZE * FACE_SIZE)
+  const histogram = new Array<number>(256).fill(0)
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2])
+    histogram[luminance[i]]++
+  }
+
+  const lookup = new Uint8Array(256)
+  let cumulative = 0
+  for (let value = 0; value < 256; value++) {
+    cumulative += histogram[value]
+    lookup[value] = Math.round((cumulative / luminance.length) * 255)
+  }
+  return luminance.map((value) => lookup[value])
+}
+
+// One normalized histogram of uniform local binary patterns per grid cell, concatenated
+export function faceDescriptor(canvas: HTMLCanvasElement, box: FaceBox): number[] | null {
+  const luminance = faceLuminance(canvas, box)
+  return luminance && lbpDescriptor(luminance)
+}
+
+// The descriptor of a FACE_SIZE x FACE_SIZE grayscale face, row by row
+export function lbpDescriptor(luminance: ArrayLike<number>) {
+  const cellSize = FACE_SIZE / GRID
+  const descriptor = new Array<number>(GRID * GRID * BIN_COUNT).fill(0)
+  const neighbors = [
+    [-1, -1],
+    [0, -1],
+    [1, -1],
+    [1, 0],
+    [1, 1],
+    [0, 1],
+    [-1, 1],
+    [-1, 0],
+  ]
+
+  for (let y = 1; y < FACE_SIZE - 1; y++) {
+    for (let x = 1; x < FACE_SIZE - 1; x++) {
+      const center = luminance[y * FACE_SIZE + x]
+      let pattern = 0
+      neighbors.forEach(([dx, dy], bit) => {
+        if (luminance[(y + dy) * FACE_SIZE + x + dx] >= center) pattern |= 1 << bit
+      })
+
+      const cell = Math.floor(y / cellSize) * GRID + Math.floor(x / cellSize)
+      descriptor[cell * BIN_COUNT + UNIFORM_BINS[pattern]]++
+    }
+  }
+
+  for (let cell = 0; cell < GRID * GRID; cell++) {
+    const start = cell * BIN_COUNT
+    const total = descriptor.slice(start, start + BIN_COUNT).reduce((sum, count) => sum + count, 0)
+    for (let bin = start; bin < start + BIN_COUNT; bin++) descriptor[bin] /= total || 1
+  }
+
+  return descriptor
+}
+
+// Chi-square distance between two descriptors, from 0 for identical up to 2 per grid cell
+export function descriptorDistance(a: number[], b: number[]) {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    const sum = a[i] + b[i]
+    if (sum > 0) distance += (a[i] - b[i]) ** 2 / sum
+  }
+  return distance
+}
+
+// The enrollment photos all show the same face, so a person who stepped in front of the camera is not mixed in
+export function isConsistentEnrollment(descriptors: number[][]) {
+  return descriptors.every((a, i) => descriptors.slice(i + 1).every((b) => descriptorDistance(a, b) <= MATCH_THRESHOLD))
+}
+
+// The enrolled person closest to the face, only when the match is clear. Null otherwise.
+export function matchFace<T extends { name: string; descriptors: number[][] }>(descriptor: number[], people: T[]) {
+  const threshold = people.length === 1 ? SINGLE_PERSON_THRESHOLD : MATCH_THRESHOLD
+  const ranked = people
+    .map((person) => ({
+      person,
+      distance: Math.min(...person.descriptors.map((sample) => descriptorDistance(descriptor, sample))),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+
+  const [best, second] = ranked
+  if (!best || best.distance > threshold) return null
+  if (second && second.distance - best.distance < MATCH_MARGIN) return null
+  return best.person
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_CHANGE_THRESHOLD, frameDifference, hasSceneChanged } from "@/lib/frame-diff"
+
+const SIZE = 32 * 24
+
+function signature(luminance: (index: number) => number) {
+  return Uint8ClampedArray.from({ length: SIZE }, (_, index) => luminance(index))
+}
+
+describe("frameDifference", () => {
+  it("is 0 for identical frames and 100 for black against white", () => {
+    const gray = signature(() => 128)
+    const black = signature(() => 0)
+    const white = signature(() => 255)
+    expect(frameDifference(gray, gray)).toBe(0)
+    expect(frameDifference(black, white)).toBe(100)
+  })
+})
+
+describe("hasSceneChanged", () => {
+  it("ignores sensor noise below the threshold", () => {
+    const frame = signature((index) => index % 200)
+    const noisy = signature((index) => (index % 200) + (index % 2 ? 3 : -3))
+    expect(hasSceneChanged(frame, noisy, DEFAULT_CHANGE_THRESHOLD)).toBe(false)
+  })
+
+  it("reports a new object covering part of the frame", () => {
+    const frame = signature(() => 60)
+    // A bright object over the left third
+    const changed = signature((index) => (index % 32 < 11 ? 250 : 60))
+    expect(hasSceneChanged(frame, changed, DEFAULT_CHANGE_THRESHOLD)).toBe(true)
+  })
+
+  it("treats a missing signature as a change, so the frame is analyzed", () => {
+    const frame = signature(() => 0)
+    expect(hasSceneChanged(null, frame, DEFAULT_CHANGE_THRESHOLD)).toBe(true)
+    expect(hasSceneChanged(frame, null, DEFAULT_CHANGE_THRESHOLD)).toBe(true)
+  })
+})
@@ -0,0 +1,47 @@
+// On-device change detection for frames captured repeatedly from the camera.
+// Each frame is reduced to a tiny grayscale thumbnail; when it barely differs from the
+// last analyzed frame the upload is skipped.
+
+export const DEFAULT_CHANGE_THRESHOLD = 8
+export const MIN_CHANGE_THRESHOLD = 1
+export const MAX_CHANGE_THRESHOLD = 30
+
+// Small enough to ignore sensor noise and slight hand shake
+const SIGNATURE_WIDTH = 32
+const SIGNATURE_HEIGHT = 24
+
+// Luminance of each pixel of the downscaled frame
+export type FrameSignature = Uint8ClampedArray
+
+export function computeFrameSignature(canvas: HTMLCanvasElement): FrameSignature | null {
+  const sample = document.createElement("canvas")
+  sample.width = SIGNATURE_WIDTH
+  sample.height = SIGNATURE_HEIGHT
+
+  const context = sample.getContext("2d")
+  if (!context || canvas.width === 0 || canvas.height === 0) return null
+
+  context.drawImage(canvas, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT)
+  const { data } = context.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT)
+
+  const signature = new Uint8ClampedArray(SIGNATURE_WIDTH * SIGNATURE_HEIGHT)
+  for (let i = 0; i < signature.length; i++) {
+    signature[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return signature
+}
+
+// Mean absolute luminance difference, as a percentage from 0 (identical) to 100
+export function frameDifference(a: FrameSignature, b: FrameSignature) {
+  let total = 0
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i])
+  }
+  return (total / a.length / 255) * 100
+}
+
+// True when the frame differs from the previous one by at least `threshold` percent
+export function hasSceneChanged(previous: FrameSignature | null, current: FrameSignature | null, threshold: number) {
+  if (!previous || !current) return true
+  return frameDifference(previous, current) >= threshold
+}
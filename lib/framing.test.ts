@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { checkFraming, framingMessage } from "@/lib/framing"
+
+const WIDTH = 80
+const HEIGHT = 60
+
+// A grayscale frame small enough to be checked as is. samplePixels draws it onto a working canvas,
+// which here just hands back the same pixels.
+function frame(luminance: (x: number, y: number) => number) {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4)
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const value = luminance(x, y)
+      data.set([value, value, value, 255], (y * WIDTH + x) * 4)
+    }
+  }
+
+  const context = { drawImage: () => {}, getImageData: () => ({ data, width: WIDTH, height: HEIGHT }) }
+  vi.stubGlobal("document", { createElement: () => ({ getContext: () => context }) })
+  return { width: WIDTH, height: HEIGHT } as HTMLCanvasElement
+}
+
+// White paper with lines of print on a dark table, covering the given rows and columns
+function page(top: number, bottom: number, left: number, right: number) {
+  return frame((x, y) => {
+    if (y < top || y >= bottom || x < left || x >= right) return 40
+    return y % 4 === 0 && x % 3 !== 0 ? 90 : 230
+  })
+}
+
+beforeEach(() => {
+  vi.stubGlobal("HTMLVideoElement", class {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("checkFraming", () => {
+  it("asks for light first, then for a steady phone", () => {
+    expect(
+      checkFraming(
+        frame(() => 20),
+        "scene",
+      ),
+    ).toBe("too_dark")
+    expect(
+      checkFraming(
+        frame(() => 128),
+        "scene",
+      ),
+    ).toBe("blurry")
+  })
+
+  it("only checks light and focus for a scene", () => {
+    expect(checkFraming(page(0, 20, 0, 20), "scene")).toBe("good")
+  })
+
+  it("is good when the whole page fills enough of the frame", () => {
+    expect(checkFraming(page(8, 52, 16, 64), "page")).toBe("good")
+  })
+
+  it("says which way to move when an edge of the page is cut off", () => {
+    expect(checkFraming(page(0, 40, 16, 64), "page")).toBe("move_up")
+    expect(checkFraming(page(20, 60, 16, 64), "page")).toBe("move_down")
+    expect(checkFraming(page(8, 52, 0, 50), "page")).toBe("move_left")
+    expect(checkFraming(page(8, 52, 30, 80), "page")).toBe("move_right")
+    expect(checkFraming(page(0, 60, 16, 64), "page")).toBe("move_back")
+  })
+
+  it("asks to move closer to a small page", () => {
+    expect(checkFraming(page(15, 45, 25, 55), "page")).toBe("move_closer")
+  })
+
+  it("has no hint before the camera has a picture", () => {
+    expect(checkFraming({ width: 0, height: 0 } as HTMLCanvasElement, "page")).toBeNull()
+  })
+})
+
+describe("framingMessage", () => {
+  it("only suggests the torch when there is one", () => {
+    expect(framingMessage("too_dark", true)).toBe("Too dark, turn on the torch.")
+    expect(framingMessage("too_dark", false)).toBe("Too dark, find more light.")
+  })
+})
@@ -0,0 +1,168 @@
+import { checkImageLocally, isBlurry, isTooDark, samplePixels, type PixelSource } from "@/lib/image-checks"
+
+// On-device checks of the live camera before a picture is taken (see hooks/use-guided-framing).
+// "scene" only checks light and focus, "page" also checks that a whole sheet of paper is in view.
+
+export type FramingTarget = "scene" | "page"
+
+export type FramingHint =
+  | "too_dark"
+  | "blurry"
+  | "no_page"
+  | "move_up"
+  | "move_down"
+  | "move_left"
+  | "move_right"
+  | "move_closer"
+  | "move_back"
+  | "good"
+
+// A row or column belongs to the page when at least this fraction of it is page colored
+const PAGE_LINE_FRACTION = 0.35
+// The page should cover at least this fraction of the frame to be readable
+const MIN_PAGE_AREA = 0.3
+// Page and background must differ at least this much in mean luminance for the page to be found
+const MIN_PAGE_CONTRAST = 40
+// A frame this bright without a visible edge is taken to be all paper
+const PAGE_BRIGHTNESS = 150
+// Edges closer than this fraction of the frame to its border count as cut off
+const BORDER_MARGIN = 0.03
+
+// Luminance threshold that best separates dark and bright pixels (Otsu's method)
+function otsuThreshold(luminance: Uint8Array) {
+  const histogram = new Array<number>(256).fill(0)
+  for (const value of luminance) histogram[value]++
+
+  const total = luminance.length
+  let sum = 0
+  for (let i = 0; i < 256; i++) sum += i * histogram[i]
+
+  let backgroundSum = 0
+  let backgroundCount = 0
+  let bestThreshold = 128
+  let bestVariance = 0
+
+  for (let i = 0; i < 256; i++) {
+    backgroundCount += histogram[i]
+    if (backgroundCount === 0) continue
+    const foregroundCount = total - backgroundCount
+    if (foregroundCount === 0) break
+
+    backgroundSum += i * histogram[i]
+    const backgroundMean = backgroundSum / backgroundCount
+    const foregroundMean = (sum - backgroundSum) / foregroundCount
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2
+
+    if (variance > bestVariance) {
+      bestVariance = variance
+      bestThreshold = i
+    }
+  }
+
+  return bestThreshold
+}
+
+// Finds the paper as the bright region against a darker background, and says how to move to fit all of it.
+// Its edges are the first and last rows and columns that are mostly page colored.
+function checkPage(source: PixelSource): FramingHint | null {
+  const image = samplePixels(source)
+  if (!image) return null
+
+  const { data, width, height } = image
+  const luminance = new Uint8Array(width * height)
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2])
+  }
+
+  const threshold = otsuThreshold(luminance)
+
+  let brightSum = 0
+  let brightCount = 0
+  let darkSum = 0
+  const rowCounts = new Array<number>(height).fill(0)
+  const columnCounts = new Array<number>(width).fill(0)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = luminance[y * width + x]
+      if (value > threshold) {
+        brightSum += value
+        brightCount++
+        rowCounts[y]++
+        columnCounts[x]++
+      } else {
+        darkSum += value
+      }
+    }
+  }
+
+  const darkCount = luminance.length - brightCount
+  const contrast = brightCount && darkCount ? brightSum / brightCount - darkSum / darkCount : 0
+
+  // A uniform frame is either all paper, so too close, or no paper at all
+  if (contrast < MIN_PAGE_CONTRAST) {
+    return (brightSum + darkSum) / luminance.length > PAGE_BRIGHTNESS ? "move_back" : "no_page"
+  }
+
+  const rows = rowCounts.map((count, y) => (count / width >= PAGE_LINE_FRACTION ? y : -1)).filter((y) => y >= 0)
+  const columns = columnCounts.map((count, x) => (count / height >= PAGE_LINE_FRACTION ? x : -1)).filter((x) => x >= 0)
+  if (rows.length === 0 || columns.length === 0) return "no_page"
+
+  const top = rows[0] / height
+  const bottom = (rows[rows.length - 1] + 1) / height
+  const left = columns[0] / width
+  const right = (columns[columns.length - 1] + 1) / width
+
+  const cutTop = top <= BORDER_MARGIN
+  const cutBottom = bottom >= 1 - BORDER_MARGIN
+  const cutLeft = left <= BORDER_MARGIN
+  const cutRight = right >= 1 - BORDER_MARGIN
+
+  // Cut off on opposite sides means the page does not fit at this distance
+  if ((cutTop && cutBottom) || (cutLeft && cutRight)) return "move_back"
+  if (cutTop) return "move_up"
+  if (cutBottom) return "move_down"
+  if (cutLeft) return "move_left"
+  if (cutRight) return "move_right"
+
+  if ((bottom - top) * (right - left) < MIN_PAGE_AREA) return "move_closer"
+
+  return "good"
+}
+
+// The most important problem with the current frame, or "good". Null when the camera has no picture yet.
+export function checkFraming(source: PixelSource, target: FramingTarget): FramingHint | null {
+  const checks = checkImageLocally(source)
+  if (!checks) return null
+
+  if (isTooDark(checks)) return "too_dark"
+  if (isBlurry(checks)) return "blurry"
+  if (target === "page") return checkPage(source)
+  return "good"
+}
+
+// Short spoken hint. The torch is only suggested when the camera has one that is off.
+export function framingMessage(hint: FramingHint, torchAvailable: boolean) {
+  switch (hint) {
+    case "too_dark":
+      return torchAvailable ? "Too dark, turn on the torch." : "Too dark, find more light."
+    case "blurry":
+      return "Blurry, hold the phone still."
+    case "no_page":
+      return "I can't see a page. Point the camera at the paper."
+    case "move_up":
+      return "Move the phone up."
+    case "move_down":
+      return "Move the phone down."
+    case "move_left":
+      return "Move the phone left."
+    case "move_right":
+      return "Move the phone right."
+    case "move_closer":
+      return "Move the phone closer."
+    case "move_back":
+      return "Move the phone further away."
+    case "good":
+      return "Hold still."
+  }
+}
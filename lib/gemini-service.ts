@@ -1,134 +1,272 @@
 // Mark this file as server-only to prevent it from being bundled with client code
 import "server-only"
 
-// Use dynamic import to ensure the package is only loaded on the server
-// This prevents the browser from trying to load the GoogleGenAI package
-export async function generateTextResponse(prompt: string) {
-  try {
-    // Check for API key
-    if (!process.env.GOOGLE_API_KEY) {
-      throw new Error("GOOGLE_API_KEY environment variable is not set")
-    }
+import type { z } from "zod"
+import {
+  createCircuitBreaker,
+  DEFAULT_CALL_POLICY,
+  planRetry,
+  runWithDeadline,
+  sleep,
+  withCallPolicy,
+  type CircuitBreaker,
+  type RetryInfo,
+} from "@/lib/call-policy"
+import type { ChatStreamEvent } from "@/lib/chat-stream"
+import { AIServiceError, toAIServiceError } from "@/lib/errors"
+import { getProvider, type ChatMessage, type ImageInput, type ModelProvider } from "@/lib/providers"
+import {
+  colorReportSchema,
+  currencyReportSchema,
+  documentPageSchema,
+  hazardReportSchema,
+  medicationLabelSchema,
+  objectLocationSchema,
+} from "@/lib/schemas"
 
-    // Dynamically import the GoogleGenAI package
-    const { GoogleGenerativeAI } = await import("@google/generative-ai")
+const DEFAULT_IMAGE_PROMPT =
+  "Describe this image in detail, focusing on any potential obstacles, surroundings, and important elements that would be helpful for a visually impaired person to know about."
 
-    // Initialize the client
-    const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY)
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" })
+const HAZARD_PROMPT = `You are an obstacle detector for a visually impaired person holding up a phone camera while walking.
+Reply with JSON only, no other text, in exactly this shape:
+{"hazards": [{"type": "stairs down", "clock": 12, "distance": "close", "urgency": "high"}], "summary": "A corridor with a door on the right."}
+List at most 5 hazards that could trip, block or hurt the person, most urgent first, or an empty list when there are none.
+- type: a short name such as "stairs down", "curb", "open door", "person", "wet floor" or "low branch"
+- clock: direction as a clock position from 1 to 12, where 12 is straight ahead, 3 is right and 9 is left
+- distance: "very_close" under 1 meter, "close" 1 to 3 meters, "far" beyond 3 meters
+- urgency: "high" if the person must stop or change course now, "medium" if they should take care soon, "low" otherwise
+- summary: one or two short sentences about the rest of the scene`
 
-    const result = await model.generateContent(prompt)
-    const response = await result.response
-    return response.text()
-  } catch (error) {
-    console.error("Error generating text response:", error)
-    return "I'm sorry, I couldn't process your request at the moment. Please try again later."
-  }
+const CURRENCY_PROMPT = `You identify banknotes for a visually impaired person.
+Reply with JSON only, no other text, in exactly this shape:
+{"notes": [{"currency": "EUR", "denomination": 20, "confidence": 0.95}]}
+List every banknote visible in the picture, one entry per note, or an empty list when there are none.
+- currency: the ISO 4217 code of the note, such as "USD", "EUR" or "GBP"
+- denomination: the value printed on the note, as a number
+- confidence: from 0 to 1, how sure you are of both the currency and the value. Use a low value when the note is folded, blurred, partly hidden or not clearly a banknote. Never guess a value you cannot read.`
+
+const COLOR_PROMPT = `You name colors for a visually impaired person choosing clothes or checking an item.
+Reply with JSON only, no other text, in exactly this shape:
+{"item": "shirt", "colors": ["navy blue", "white"], "pattern": "striped"}
+Only describe the main item in the center of the picture.
+- item: a short name for it, such as "shirt", "sock" or "mug"
+- colors: up to 3 color names as people say them, such as "navy blue", "burgundy" or "light gray", main color first
+- pattern: such as "striped", "checked" or "floral", or null when the item is plain
+Judge the colors as they would look in daylight, not the tint of the lighting.`
+
+const MEDICATION_PROMPT = `You read medication labels, such as pill bottles and boxes, for a visually impaired person.
+Reply with JSON only, no other text, in exactly this shape:
+{"legible": true, "name": "Amlodipine", "strength": "5 mg", "dosage": "Take one tablet by mouth once daily", "expiry": "2026-03", "warnings": ["May cause dizziness"]}
+Mistakes here can hurt someone, so copy only what is printed and never guess.
+- legible: false when you cannot read the medicine name and strength with certainty, for example when the label is blurred, cut off or turned away
+- name: the medicine name as printed, or null
+- strength: such as "5 mg" or "10 mg/5 ml", or null
+- dosage: the directions for use as printed, or null
+- expiry: the expiry date as "YYYY-MM", or "YYYY-MM-DD" when the day is printed, or null. Ignore other dates such as the dispensing date.
+- warnings: the warnings printed on the label, such as "May cause drowsiness" or "Do not drink alcohol", or an empty list`
+
+// The target comes from the user, so it is quoted rather than pasted into the instructions
+function searchPrompt(target: string) {
+  return `You help a visually impaired person find one object with their camera. They are looking for: ${JSON.stringify(target)}
+Reply with JSON only, no other text, in exactly this shape:
+{"found": true, "position": "left", "distance": "far"}
+- found: true only when you can clearly see that object in the picture
+- position: "left", "center" or "right", where the object is across the picture, or null when it was not found
+- distance: "near" when it is within arm's reach of the camera, otherwise "far", or null when it was not found`
 }
 
-// Vision analysis with Gemini
-export async function analyzeImage(imageBase64: string, prompt?: string) {
-  try {
-    // Check for API key
-    if (!process.env.GOOGLE_API_KEY) {
-      throw new Error("GOOGLE_API_KEY environment variable is not set")
-    }
+const DOCUMENT_PROMPT = `You are reading a printed or handwritten page aloud to a visually impaired person.
+Reply with JSON only, no other text, in exactly this shape:
+{"blocks": [{"kind": "heading", "text": "Dear Ms. Smith"}, {"kind": "paragraph", "text": "Thank you for your letter."}], "cutOff": false}
+Transcribe all the text word for word. Do not summarize, shorten, correct or explain it.
+- blocks: the text in reading order, following columns top to bottom before moving right
+- kind: "heading" for titles and headings, "list_item" for each bullet or numbered item, "paragraph" for everything else
+- text: the exact text of the block, joining lines broken only by the page width
+- cutOff: true if text runs off any edge of the picture
+Return an empty list of blocks if there is no readable text.`
 
-    // Dynamically import the GoogleGenAI package
-    const { GoogleGenerativeAI } = await import("@google/generative-ai")
-
-    // Initialize the client
-    const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY)
-    // Use gemini-1.5-flash instead of pro to avoid rate limits
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" })
-
-    // Create parts array with image
-    const parts = [
-      {
-        inlineData: {
-          data: imageBase64,
-          mimeType: "image/jpeg",
-        },
-      },
-    ]
-
-    // Add text prompt if provided
-    if (prompt) {
-      parts.push({ text: String(prompt) })
-    } else {
-      parts.push({
-        text: "Describe this image in detail, focusing on any potential obstacles, surroundings, and important elements that would be helpful for a visually impaired person to know about.",
-      })
-    }
+const IMAGE_CHAT_SYSTEM_PROMPT =
+  "You are Vission Assist AI, helping a visually impaired person with a picture they just took. Answer their follow-up questions about this picture only, in one to three short sentences. If the answer cannot be seen in the picture, say so plainly and suggest taking a new picture."
 
-    // Generate content with the image
-    const result = await model.generateContent({
-      contents: [{ role: "user", parts }],
-    })
+// One circuit breaker per provider, so switching AI_PROVIDER starts with a closed breaker
+const breakers = new Map<string, CircuitBreaker>()
+
+function getBreaker(provider: ModelProvider) {
+  let breaker = breakers.get(provider.name)
+  if (!breaker) {
+    breaker = createCircuitBreaker()
+    breakers.set(provider.name, breaker)
+  }
+  return breaker
+}
+
+function logRetry(label: string, { attempt, delayMs, remainingMs, error }: RetryInfo) {
+  console.warn(
+    `${label}: attempt ${attempt} failed with ${error.code}, retrying in ${Math.round(delayMs)}ms (${Math.round(remainingMs)}ms left)`,
+  )
+}
 
-    const response = await result.response
-    return response.text()
+// Runs a provider call under the shared retry, deadline and circuit breaker policy (see lib/call-policy)
+async function callProvider<T>(label: string, operation: (provider: ModelProvider, signal: AbortSignal) => Promise<T>) {
+  try {
+    const provider = getProvider()
+    return await withCallPolicy((signal) => operation(provider, signal), {
+      breaker: getBreaker(provider),
+      onRetry: (info) => logRetry(label, info),
+    })
   } catch (error) {
-    console.error("Error analyzing image:", error)
-    return "I'm sorry, I couldn't analyze this image at the moment. The scene appears to have some objects and surroundings, but please try again for a more detailed description."
+    console.error(`Error in ${label}:`, error)
+    throw toAIServiceError(error)
   }
 }
 
-// Chat conversation with Gemini
-export async function chatWithGemini(messages: { role: string; content: string }[], systemPrompt?: string) {
+// The model backend is chosen by the AI_PROVIDER env variable (see lib/providers).
+// Failures are rethrown as AIServiceError so the routes can report a specific code.
+export async function generateTextResponse(prompt: string) {
+  return callProvider("text response", (provider, signal) => provider.generateText(prompt, { signal }))
+}
+
+// Vision analysis with the configured provider, on an image already checked by normalizeImage (see lib/image-input)
+export async function analyzeImage(image: ImageInput, prompt?: string) {
+  return callProvider("image analysis", (provider, signal) =>
+    provider.analyzeImage(image, prompt ? String(prompt) : DEFAULT_IMAGE_PROMPT, { signal }),
+  )
+}
+
+// Extracts and validates the JSON object in a model reply, tolerating code fences around it
+function parseJsonReply<T extends z.ZodTypeAny>(reply: string, schema: T, description: string): z.output<T> {
+  const start = reply.indexOf("{")
+  const end = reply.lastIndexOf("}")
+
   try {
-    // Check for API key
-    if (!process.env.GOOGLE_API_KEY) {
-      throw new Error("GOOGLE_API_KEY environment variable is not set")
-    }
+    const parsed = schema.safeParse(JSON.parse(reply.slice(start, end + 1)))
+    if (parsed.success) return parsed.data
+  } catch {
+    // Not JSON, reported below
+  }
 
-    // Dynamically import the GoogleGenAI package
-    const { GoogleGenerativeAI } = await import("@google/generative-ai")
+  throw new AIServiceError("upstream_error", `The AI service returned a malformed ${description}`)
+}
 
-    // Initialize the client
-    const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY)
-    const model = genAI.getGenerativeModel({
-      model: "gemini-1.5-flash",
-    })
+// Hazard mode: structured obstacle report for the image. Malformed replies count as upstream
+// errors, so the call policy retries them like any other failed attempt.
+export async function detectHazards(image: ImageInput) {
+  return callProvider("hazard detection", async (provider, signal) =>
+    parseJsonReply(await provider.analyzeImage(image, HAZARD_PROMPT, { signal }), hazardReportSchema, "hazard report"),
+  )
+}
 
-    // Convert messages to Gemini format - filter out system messages
-    const formattedMessages = messages
-      .filter((msg) => msg.role !== "system") // Remove system messages
-      .map((msg) => ({
-        role: msg.role === "user" ? "user" : "model",
-        parts: [{ text: msg.content }],
-      }))
-
-    // Make sure we have at least one user message
-    if (formattedMessages.length === 0 || formattedMessages[0].role !== "user") {
-      // If no user message, create a default one
-      formattedMessages.unshift({
-        role: "user",
-        parts: [{ text: "Hello" }],
-      })
-    }
+// Currency mode: the banknotes in the image with the model's confidence, checked in lib/currency
+export async function detectCurrency(image: ImageInput) {
+  return callProvider("currency recognition", async (provider, signal) =>
+    parseJsonReply(
+      await provider.analyzeImage(image, CURRENCY_PROMPT, { signal }),
+      currencyReportSchema,
+      "currency report",
+    ),
+  )
+}
 
-    // If we have a system prompt, prepend it to the first user message
-    if (systemPrompt && formattedMessages.length > 0 && formattedMessages[0].role === "user") {
-      const firstUserMessage = formattedMessages[0].parts[0].text
-      formattedMessages[0].parts[0].text = `${systemPrompt}\n\nUser: ${firstUserMessage}`
-    }
+// Color mode: the item in the center and its colors. Dominant colors measured on the device, as hex,
+// help the model with lighting that shifts the colors in the picture.
+export async function identifyColors(image: ImageInput, measuredColors?: string[]) {
+  // After a blank line, so the mock provider's fixtures can match the instructions alone
+  const prompt = measuredColors?.length
+    ? `${COLOR_PROMPT}\n\nMeasured on the device, the center of the picture is mostly ${measuredColors.join(", ")}.`
+    : COLOR_PROMPT
+  return callProvider("color identification", async (provider, signal) =>
+    parseJsonReply(await provider.analyzeImage(image, prompt, { signal }), colorReportSchema, "color report"),
+  )
+}
 
-    // Start chat with history (excluding the last message)
-    const chat = model.startChat({
-      history: formattedMessages.slice(0, -1),
-    })
+// Medication mode: the name, strength, directions, expiry and warnings of a label, checked in lib/medication
+export async function readMedicationLabel(image: ImageInput) {
+  return callProvider("medication label reading", async (provider, signal) =>
+    parseJsonReply(
+      await provider.analyzeImage(image, MEDICATION_PROMPT, { signal }),
+      medicationLabelSchema,
+      "medication label",
+    ),
+  )
+}
 
-    // Get the last message content (which should be from the user)
-    const lastMessage = formattedMessages[formattedMessages.length - 1]
-    const lastMessageContent = lastMessage.role === "user" ? lastMessage.parts[0].text : "Hello"
+// Search mode: whether the object the user asked for is in the picture, and where
+export async function locateObject(image: ImageInput, target: string) {
+  return callProvider("object search", async (provider, signal) =>
+    parseJsonReply(
+      await provider.analyzeImage(image, searchPrompt(target), { signal }),
+      objectLocationSchema,
+      "object location",
+    ),
+  )
+}
+
+// Document mode: the full text of a page in reading order, retried like hazard reports when malformed
+export async function readDocumentPage(image: ImageInput) {
+  return callProvider("document reading", async (provider, signal) =>
+    parseJsonReply(await provider.analyzeImage(image, DOCUMENT_PROMPT, { signal }), documentPageSchema, "document"),
+  )
+}
 
-    // Send the last message
-    const result = await chat.sendMessage(lastMessageContent)
-    const response = await result.response
-    return response.text()
+// Follow-up conversation about an image already checked by normalizeImage
+export async function chatAboutImage(image: ImageInput, messages: ChatMessage[]) {
+  return callProvider("image conversation", (provider, signal) =>
+    provider.chatAboutImage(image, messages, IMAGE_CHAT_SYSTEM_PROMPT, { signal }),
+  )
+}
+
+// Chat conversation with the configured provider
+export async function chatWithGemini(messages: ChatMessage[], systemPrompt?: string) {
+  return callProvider("chat conversation", (provider, signal) => provider.chat(messages, systemPrompt, { signal }))
+}
+
+// Streaming chat conversation, yielding the reply in chunks as it is generated.
+// Retries only cover the wait for the first chunk: once text has been sent it cannot be taken back,
+// so each retry is reported as an event the page can announce instead.
+export async function* streamChatWithGemini(
+  messages: ChatMessage[],
+  systemPrompt?: string,
+): AsyncGenerator<ChatStreamEvent> {
+  try {
+    const policy = DEFAULT_CALL_POLICY
+    const provider = getProvider()
+    const breaker = getBreaker(provider)
+    breaker.check()
+
+    const deadlineAt = Date.now() + policy.deadlineMs
+    let iterator: AsyncIterator<string> | undefined
+    let first: IteratorResult<string>
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        first = await runWithDeadline((signal) => {
+          iterator = provider.streamChat(messages, systemPrompt, { signal })[Symbol.asyncIterator]()
+          return iterator.next()
+        }, deadlineAt)
+        breaker.recordSuccess()
+        break
+      } catch (caught) {
+        const error = toAIServiceError(caught)
+        const delayMs = planRetry(error, attempt, deadlineAt, policy)
+
+        if (delayMs === null) {
+          breaker.recordFailure(error)
+          throw error
+        }
+
+        const remainingMs = deadlineAt - Date.now()
+        logRetry("streaming chat conversation", { attempt, delayMs, remainingMs, error })
+        yield { type: "retry", attempt, remainingMs }
+        await sleep(delayMs)
+      }
+    }
+
+    // The rest of the reply streams without the deadline
+    for (let next = first; !next.done; next = await iterator!.next()) {
+      yield { type: "delta", text: next.value }
+    }
   } catch (error) {
-    console.error("Error in chat conversation:", error)
-    return "I'm sorry, I couldn't process your request at the moment. Please try again later."
+    console.error("Error in streaming chat conversation:", error)
+    throw toAIServiceError(error)
   }
 }
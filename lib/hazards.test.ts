@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import { hazardVibration, hazardWarning, HAZARD_VIBRATION, sortHazards } from "@/lib/hazards"
+import type { Hazard } from "@/lib/schemas"
+
+const stairs: Hazard = { type: "stairs down", clock: 12, distance: "very_close", urgency: "high" }
+const door: Hazard = { type: "open door", clock: 2, distance: "close", urgency: "medium" }
+const chair: Hazard = { type: "chair", clock: 10, distance: "very_close", urgency: "medium" }
+
+describe("hazardWarning", () => {
+  it("capitalizes the hazard after Stop! for urgent warnings", () => {
+    expect(hazardWarning(stairs)).toBe("Stop! Stairs down straight ahead, very close.")
+  })
+
+  it("states other hazards plainly", () => {
+    expect(hazardWarning(door)).toBe("Open door at 2 o'clock, a few steps away.")
+  })
+})
+
+describe("sortHazards", () => {
+  it("puts the most urgent first, then the nearest", () => {
+    expect(sortHazards([door, chair, stairs])).toEqual([stairs, chair, door])
+  })
+})
+
+describe("hazardVibration", () => {
+  it("vibrates for the most urgent hazard, not at all without one", () => {
+    expect(hazardVibration([door, stairs])).toEqual(HAZARD_VIBRATION.high)
+    expect(hazardVibration([])).toBeNull()
+  })
+})
@@ -0,0 +1,46 @@
+import type { Hazard } from "@/lib/schemas"
+
+// Turns the structured hazard report of hazard mode into short spoken warnings and vibration patterns
+
+const URGENCY_ORDER: Record<Hazard["urgency"], number> = { high: 0, medium: 1, low: 2 }
+
+const DISTANCE_WORDS: Record<Hazard["distance"], string> = {
+  very_close: "very close",
+  close: "a few steps away",
+  far: "further ahead",
+}
+
+// Distinct patterns so the urgency can be felt without listening: long triple buzz, double, single tap
+export const HAZARD_VIBRATION: Record<Hazard["urgency"], number[]> = {
+  high: [400, 100, 400, 100, 400],
+  medium: [200, 150, 200],
+  low: [80],
+}
+
+// Most urgent first, then nearest
+export function sortHazards(hazards: Hazard[]) {
+  const distanceOrder = Object.keys(DISTANCE_WORDS)
+  return [...hazards].sort(
+    (a, b) =>
+      URGENCY_ORDER[a.urgency] - URGENCY_ORDER[b.urgency] ||
+      distanceOrder.indexOf(a.distance) - distanceOrder.indexOf(b.distance),
+  )
+}
+
+export function describeDirection(clock: number) {
+  if (clock === 12) return "straight ahead"
+  return `at ${clock} o'clock`
+}
+
+// "Stop! Stairs down straight ahead, very close." for high urgency, a plain statement otherwise
+export function hazardWarning(hazard: Hazard) {
+  const type = hazard.type.charAt(0).toUpperCase() + hazard.type.slice(1)
+  const text = `${type} ${describeDirection(hazard.clock)}, ${DISTANCE_WORDS[hazard.distance]}.`
+  return hazard.urgency === "high" ? `Stop! ${text}` : text
+}
+
+// Vibration for the most urgent hazard in the report, or null when there are none
+export function hazardVibration(hazards: Hazard[]) {
+  const [mostUrgent] = sortHazards(hazards)
+  return mostUrgent ? HAZARD_VIBRATION[mostUrgent.urgency] : null
+}
@@ -0,0 +1,73 @@
+// Minimal promise wrapper around IndexedDB for the data the app keeps on the device
+const DB_NAME = "vission-assist"
+const DB_VERSION = 4
+
+// Object stores, all keyed by an auto-incremented `id`
+const STORES = ["pending-frames", "scan-history", "medications", "known-people"] as const
+
+export type StoreName = (typeof STORES)[number]
+
+export type StoredRecord<T> = T & { id: number }
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      // Create any store that does not exist yet
+      request.onupgradeneeded = () => {
+        for (const store of STORES) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store, { keyPath: "id", autoIncrement: true })
+          }
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+// Runs a single request against a store and resolves with its result
+async function run<T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) {
+  const database = await openDatabase()
+
+  return new Promise<T>((resolve, reject) => {
+    const request = action(database.transaction(store, mode).objectStore(store))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function addRecord<T>(store: StoreName, value: T) {
+  return run<number>(store, "readwrite", (objectStore) => objectStore.add(value))
+}
+
+export function putRecord<T>(store: StoreName, value: StoredRecord<T>) {
+  return run<number>(store, "readwrite", (objectStore) => objectStore.put(value))
+}
+
+// Records come back in insertion order
+export function getAllRecords<T>(store: StoreName) {
+  return run<StoredRecord<T>[]>(store, "readonly", (objectStore) => objectStore.getAll())
+}
+
+export function deleteRecord(store: StoreName, id: number) {
+  return run<undefined>(store, "readwrite", (objectStore) => objectStore.delete(id))
+}
+
+// Removes every record in the store
+export function clearRecords(store: StoreName) {
+  return run<undefined>(store, "readwrite", (objectStore) => objectStore.clear())
+}
+
+export function countRecords(store: StoreName) {
+  return run<number>(store, "readonly", (objectStore) => objectStore.count())
+}
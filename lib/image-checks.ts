@@ -0,0 +1,139 @@
+// Simple checks that run on the device without any AI service.
+// They only measure pixels, so results must always be presented as such and never as a scene description.
+export interface LocalImageChecks {
+  // Mean luminance from 0 (black) to 255 (white)
+  brightness: number
+  // Variance of the Laplacian, low values mean few sharp edges
+  sharpness: number
+  // Up to three color names covering a noticeable part of the frame, most common first
+  dominantColors: string[]
+}
+
+// The checks run on a small copy of the frame, which is plenty for these measurements
+const SAMPLE_WIDTH = 160
+
+const DARK_THRESHOLD = 50
+const BRIGHT_THRESHOLD = 215
+const BLUR_THRESHOLD = 60
+
+// A captured frame, or the live camera for checks before capture
+export type PixelSource = HTMLCanvasElement | HTMLVideoElement
+
+// Draws the source onto a small working canvas and returns its pixels
+export function samplePixels(source: PixelSource) {
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height
+  if (!sourceWidth || !sourceHeight) return null
+
+  const width = Math.min(SAMPLE_WIDTH, sourceWidth)
+  const height = Math.max(1, Math.round((sourceHeight / sourceWidth) * width))
+
+  const sample = document.createElement("canvas")
+  sample.width = width
+  sample.height = height
+
+  const context = sample.getContext("2d")
+  if (!context) return null
+
+  context.drawImage(source, 0, 0, width, height)
+  return context.getImageData(0, 0, width, height)
+}
+
+// Names a color by hue, lightness and saturation
+export function colorName(r: number, g: number, b: number) {
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const lightness = (max + min) / 2 / 255
+  const saturation = max === min ? 0 : (max - min) / (255 - Math.abs(max + min - 255))
+
+  if (lightness < 0.15) return "black"
+  if (saturation < 0.15) return lightness > 0.8 ? "white" : "gray"
+
+  let hue = 0
+  if (max === r) hue = ((g - b) / (max - min)) % 6
+  else if (max === g) hue = (b - r) / (max - min) + 2
+  else hue = (r - g) / (max - min) + 4
+  hue = (hue * 60 + 360) % 360
+
+  if (hue < 15 || hue >= 340) return lightness > 0.7 ? "pink" : "red"
+  if (hue < 45) return lightness < 0.4 ? "brown" : "orange"
+  if (hue < 70) return "yellow"
+  if (hue < 160) return "green"
+  if (hue < 200) return "teal"
+  if (hue < 255) return "blue"
+  if (hue < 290) return "purple"
+  return "pink"
+}
+
+export function checkImageLocally(source: PixelSource): LocalImageChecks | null {
+  const image = samplePixels(source)
+  if (!image) return null
+
+  const { data, width, height } = image
+  const luminance = new Float32Array(width * height)
+  const colorCounts = new Map<string, number>()
+  let luminanceSum = 0
+
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4]
+    const g = data[i * 4 + 1]
+    const b = data[i * 4 + 2]
+
+    luminance[i] = 0.299 * r + 0.587 * g + 0.114 * b
+    luminanceSum += luminance[i]
+
+    const name = colorName(r, g, b)
+    colorCounts.set(name, (colorCounts.get(name) ?? 0) + 1)
+  }
+
+  // Laplacian over the inner pixels, its variance is a common measure of focus
+  let laplacianSum = 0
+  let laplacianSquares = 0
+  let samples = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const value = luminance[i - width] + luminance[i + width] + luminance[i - 1] + luminance[i + 1] - 4 * luminance[i]
+      laplacianSum += value
+      laplacianSquares += value * value
+      samples++
+    }
+  }
+  const laplacianMean = samples ? laplacianSum / samples : 0
+
+  const pixelCount = width * height
+  const dominantColors = [...colorCounts.entries()]
+    .filter(([, count]) => count / pixelCount >= 0.1)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([name]) => name)
+
+  return {
+    brightness: luminanceSum / pixelCount,
+    sharpness: samples ? laplacianSquares / samples - laplacianMean * laplacianMean : 0,
+    dominantColors,
+  }
+}
+
+export function isTooDark(checks: LocalImageChecks) {
+  return checks.brightness < DARK_THRESHOLD
+}
+
+export function isBlurry(checks: LocalImageChecks) {
+  return checks.sharpness < BLUR_THRESHOLD
+}
+
+// Spoken summary, always labeled as an on-device check
+export function describeLocalChecks(checks: LocalImageChecks) {
+  const lighting = isTooDark(checks)
+    ? "the picture is very dark"
+    : checks.brightness > BRIGHT_THRESHOLD
+      ? "the picture is very bright"
+      : "the lighting looks fine"
+  const focus = isBlurry(checks) ? "it looks blurry" : "it looks sharp"
+  const colors = checks.dominantColors.length
+    ? `the main colors are ${checks.dominantColors.join(", ")}`
+    : "no single color stands out"
+
+  return `On-device check only, not an AI description: ${lighting}, ${focus}, and ${colors}.`
+}
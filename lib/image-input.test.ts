@@ -0,0 +1,52 @@
+import sharp from "sharp"
+import { describe, expect, it } from "vitest"
+import { normalizeImage, sniffImageType } from "@/lib/image-input"
+import { MAX_IMAGE_BYTES } from "@/lib/schemas"
+
+function bytes(...parts: (number[] | string)[]) {
+  return new Uint8Array(parts.flatMap((part) => (typeof part === "string" ? [...Buffer.from(part)] : part)))
+}
+
+describe("sniffImageType", () => {
+  it("recognizes each supported format by its magic bytes", () => {
+    expect(sniffImageType(bytes([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg")
+    expect(sniffImageType(bytes([0x89], "PNG", [0x0d, 0x0a, 0x1a, 0x0a]))).toBe("image/png")
+    expect(sniffImageType(bytes("RIFF", [0, 0, 0, 0], "WEBPVP8 "))).toBe("image/webp")
+    expect(sniffImageType(bytes("GIF89a"))).toBe("image/gif")
+    expect(sniffImageType(bytes([0, 0, 0, 24], "ftypheic"))).toBe("image/heic")
+  })
+
+  it("ignores what the file claims to be otherwise", () => {
+    expect(sniffImageType(bytes("<svg xmlns="))).toBeNull()
+    expect(sniffImageType(bytes([0, 0, 0, 24], "ftypisom"))).toBeNull()
+    expect(sniffImageType(bytes("RIFF", [0, 0, 0, 0], "WAVE"))).toBeNull()
+    expect(sniffImageType(new Uint8Array())).toBeNull()
+  })
+})
+
+describe("normalizeImage", () => {
+  it("re-encodes a picture as a JPEG no larger than the model needs", async () => {
+    const png = await sharp({ create: { width: 3000, height: 1500, channels: 4, background: "#ff000080" } })
+      .png()
+      .toBuffer()
+
+    const image = await normalizeImage(new Uint8Array(png))
+    const metadata = await sharp(Buffer.from(image.data, "base64")).metadata()
+    expect(image.mimeType).toBe("image/jpeg")
+    expect(metadata).toMatchObject({ format: "jpeg", width: 1568, height: 784 })
+  })
+
+  it("refuses empty, unsupported and corrupt files as invalid input", async () => {
+    await expect(normalizeImage(new Uint8Array())).rejects.toMatchObject({ code: "invalid_input" })
+    await expect(normalizeImage(bytes("GIF8"))).rejects.toMatchObject({ code: "invalid_input" })
+    await expect(normalizeImage(bytes([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3]))).rejects.toMatchObject({
+      code: "invalid_input",
+    })
+  })
+
+  it("refuses an oversized file as too large", async () => {
+    await expect(normalizeImage(new Uint8Array(MAX_IMAGE_BYTES + 1))).rejects.toMatchObject({
+      code: "payload_too_large",
+    })
+  })
+})
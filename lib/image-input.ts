@@ -0,0 +1,85 @@
+// Mark this file as server-only to prevent it from being bundled with client code
+import "server-only"
+
+import sharp from "sharp"
+import { AIServiceError } from "@/lib/errors"
+import type { ImageInput } from "@/lib/providers"
+import { MAX_IMAGE_BYTES, type SupportedImageType } from "@/lib/schemas"
+
+// Uploaded images are checked and re-encoded here before they reach a provider,
+// so every provider gets a correctly labeled JPEG of a reasonable size.
+
+// Longest side sent to the model, larger images are scaled down
+const MAX_IMAGE_DIMENSION = 1568
+// Refuse to decode images with more pixels than this, whatever their file size
+const MAX_INPUT_PIXELS = 50_000_000
+const OUTPUT_QUALITY = 85
+
+// ISO base media brands used by HEIC and HEIF photos
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((byte, index) => bytes[offset + index] === byte)
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end))
+}
+
+// Detects the image type from the magic bytes at the start of the file, ignoring what the client claimed
+export function sniffImageType(bytes: Uint8Array): SupportedImageType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg"
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png"
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp"
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "image/gif"
+  if (ascii(bytes, 4, 8) === "ftyp" && HEIF_BRANDS.includes(ascii(bytes, 8, 12))) return "image/heic"
+  return null
+}
+
+// Checks an uploaded image and converts it to a JPEG no larger than MAX_IMAGE_DIMENSION.
+// Only the first frame of an animated GIF is used. Throws AIServiceError with a message that can be
+// shown to the user: "payload_too_large" when the file is oversized, "invalid_input" when it is
+// unsupported or corrupt.
+export async function normalizeImage(bytes: Uint8Array): Promise<ImageInput> {
+  if (bytes.length === 0) {
+    throw new AIServiceError("invalid_input", "The uploaded image is empty")
+  }
+
+  if (bytes.length > MAX_IMAGE_BYTES) {
+    throw new AIServiceError("payload_too_large", `Images can be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`)
+  }
+
+  const type = sniffImageType(bytes)
+  if (!type) {
+    throw new AIServiceError(
+      "invalid_input",
+      "Unsupported image format. Please send a JPEG, PNG, WebP, GIF or HEIC image.",
+    )
+  }
+
+  try {
+    const output = await sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS, pages: 1 })
+      // Apply the EXIF orientation so the model sees the picture upright
+      .rotate()
+      .resize({ width: MAX_IMAGE_DIMENSION, height: MAX_IMAGE_DIMENSION, fit: "inside", withoutEnlargement: true })
+      // JPEG has no transparency, so transparent areas become white rather than black
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: OUTPUT_QUALITY })
+      .toBuffer()
+
+    return { data: output.toString("base64"), mimeType: "image/jpeg" }
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("pixel limit")) {
+      throw new AIServiceError("invalid_input", "The image has too many pixels. Please send a smaller picture.", {
+        cause: error,
+      })
+    }
+
+    // Prebuilt sharp cannot decode every HEIC variant, those need converting on the device first
+    const message =
+      type === "image/heic"
+        ? "This HEIC photo could not be read. Please convert it to JPEG and try again."
+        : "The image could not be read. It may be damaged or incomplete."
+    throw new AIServiceError("invalid_input", message, { cause: error })
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { readImageUpload } from "@/lib/image-upload"
+import { MAX_IMAGE_BYTES } from "@/lib/schemas"
+
+const fieldsSchema = z.object({ prompt: z.string().optional() })
+
+// A request streamed in chunks without a content-length, as chunked uploads arrive
+function chunkedRequest(contentType: string, chunkBytes: number, chunkCount: number, url = "http://localhost/api") {
+  let sent = 0
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent === chunkCount) return controller.close()
+      sent += 1
+      controller.enqueue(new Uint8Array(chunkBytes))
+    },
+  })
+  // Streamed bodies need the duplex option, which the DOM types do not list yet
+  const init: RequestInit & { duplex: "half" } = {
+    method: "POST",
+    headers: { "content-type": contentType },
+    body,
+    duplex: "half",
+  }
+  const request = new Request(url, init)
+  return { request, sentChunks: () => sent }
+}
+
+describe("readImageUpload", () => {
+  it("stops reading a chunked upload once it passes the limit", async () => {
+    const chunk = 256 * 1024
+    const { request, sentChunks } = chunkedRequest("image/jpeg", chunk, 1000)
+
+    const { response } = await readImageUpload(request, fieldsSchema)
+    expect(response?.status).toBe(413)
+    expect(await response?.json()).toMatchObject({ code: "payload_too_large" })
+    expect(sentChunks() * chunk).toBeLessThan(MAX_IMAGE_BYTES * 2)
+  })
+
+  it("reads a raw upload within the limit with its query fields", async () => {
+    const { request } = chunkedRequest("image/jpeg", 1024, 3, "http://localhost/api?prompt=What%20is%20this")
+
+    const { data } = await readImageUpload(request, fieldsSchema)
+    expect(data?.bytes).toHaveLength(3072)
+    expect(data?.prompt).toBe("What is this")
+  })
+
+  it("reads multipart uploads from the bytes it counted", async () => {
+    const form = new FormData()
+    form.set("image", new Blob([new Uint8Array(10)], { type: "image/png" }))
+    form.set("prompt", "Read this")
+    const request = new Request("http://localhost/api", { method: "POST", body: form })
+
+    const { data } = await readImageUpload(request, fieldsSchema)
+    expect(data?.bytes).toHaveLength(10)
+    expect(data?.prompt).toBe("Read this")
+  })
+
+  it("stops reading a chunked JSON body once it passes the limit", async () => {
+    const chunk = 256 * 1024
+    const { request, sentChunks } = chunkedRequest("application/json", chunk, 1000)
+
+    const { response } = await readImageUpload(request, fieldsSchema)
+    expect(response?.status).toBe(413)
+    expect(sentChunks() * chunk).toBeLessThan(MAX_IMAGE_BYTES * 2)
+  })
+
+  it("reports a base64 image over the limit as too large", async () => {
+    const image = Buffer.alloc(MAX_IMAGE_BYTES + 1).toString("base64")
+    const request = new Request("http://localhost/api", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ image }),
+    })
+
+    const { response } = await readImageUpload(request, fieldsSchema)
+    expect(response?.status).toBe(413)
+    expect(await response?.json()).toMatchObject({ code: "payload_too_large" })
+  })
+
+  it("reads a JSON upload with its fields", async () => {
+    const request = new Request("http://localhost/api", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ image: Buffer.from("abc").toString("base64"), prompt: "Read this" }),
+    })
+
+    const { data } = await readImageUpload(request, fieldsSchema)
+    expect(Buffer.from(data?.bytes ?? []).toString()).toBe("abc")
+    expect(data?.prompt).toBe("Read this")
+  })
+
+  it("refuses a declared size over the limit without reading", async () => {
+    const request = new Request("http://localhost/api", {
+      method: "POST",
+      headers: { "content-type": "image/jpeg", "content-length": String(MAX_IMAGE_BYTES * 2) },
+      body: new Uint8Array(10),
+    })
+
+    const { response } = await readImageUpload(request, fieldsSchema)
+    expect(response?.status).toBe(413)
+  })
+})
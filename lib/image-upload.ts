@@ -0,0 +1,155 @@
+// Mark this file as server-only to prevent it from being bundled with client code
+import "server-only"
+
+import type { z } from "zod"
+import { errorResponse, parseWithSchema, type ParseResult } from "@/lib/api-errors"
+import { base64DecodedSize, base64ImageFieldsSchema, MAX_IMAGE_BYTES } from "@/lib/schemas"
+
+// Image bytes as uploaded, still to be checked with normalizeImage (see lib/image-input),
+// together with the other fields of the request
+export type ImageUpload<T extends z.AnyZodObject> = z.output<T> & { bytes: Uint8Array }
+
+// Room for the multipart boundaries and the text fields around the image itself
+const MAX_UPLOAD_BYTES = MAX_IMAGE_BYTES + 256 * 1024
+// Base64 makes the image a third larger in a JSON body
+const MAX_JSON_UPLOAD_BYTES = Math.ceil((MAX_IMAGE_BYTES * 4) / 3) + 256 * 1024
+
+const TOO_LARGE_MESSAGE = `Images can be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`
+
+function tooLargeUpload() {
+  return {
+    response: errorResponse("payload_too_large", "Upload too large", TOO_LARGE_MESSAGE, undefined, {
+      image: [TOO_LARGE_MESSAGE],
+    }),
+  }
+}
+
+// Reads the request body, giving up with null as soon as it passes maxBytes.
+// The declared content-length cannot be trusted, and chunked uploads have none.
+async function readBodyWithLimit(request: Request, maxBytes: number) {
+  if (!request.body) return new Uint8Array()
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {})
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+function invalidUpload(message: string, field?: string) {
+  return {
+    response: errorResponse(
+      "invalid_input",
+      "Invalid request",
+      message,
+      undefined,
+      field ? { [field]: [message] } : undefined,
+    ),
+  }
+}
+
+// Collects the fields of the schema from multipart form data or a query string
+function readFields(fieldsSchema: z.AnyZodObject, source: { get: (name: string) => unknown }) {
+  return Object.fromEntries(Object.keys(fieldsSchema.shape).map((name) => [name, source.get(name) ?? undefined]))
+}
+
+// Reads an image upload and the fields described by `fieldsSchema`. Three body formats are accepted:
+//   multipart/form-data      an `image` file field and the other fields as form fields
+//   image/* or octet-stream  the raw image bytes, with the other fields in the query string
+//   application/json         base64 `image` (see base64ImageFieldsSchema) and the other fields
+// Every format is read with the same byte limit. Returns either the upload or the 400 or 413 response to send.
+export async function readImageUpload<T extends z.AnyZodObject>(
+  request: Request,
+  fieldsSchema: T,
+): Promise<ParseResult<ImageUpload<T>>> {
+  const contentType = request.headers.get("content-type")?.toLowerCase() ?? ""
+
+  const isJson = contentType.startsWith("application/json") || !contentType
+  const isMultipart = contentType.startsWith("multipart/form-data")
+  const isRaw = contentType.startsWith("image/") || contentType.startsWith("application/octet-stream")
+  if (!isJson && !isMultipart && !isRaw) {
+    return invalidUpload("Send the image as JSON, multipart/form-data or a raw image body")
+  }
+
+  // Refuse oversized uploads before reading them, when the client says how big they are
+  const maxBytes = isJson ? MAX_JSON_UPLOAD_BYTES : MAX_UPLOAD_BYTES
+  const contentLength = Number(request.headers.get("content-length"))
+  if (contentLength > maxBytes) {
+    return tooLargeUpload()
+  }
+
+  let body: Uint8Array | null
+  try {
+    body = await readBodyWithLimit(request, maxBytes)
+  } catch {
+    return invalidUpload("The upload was interrupted")
+  }
+  if (!body) {
+    return tooLargeUpload()
+  }
+
+  if (isJson) {
+    let json: unknown
+    try {
+      json = JSON.parse(new TextDecoder().decode(body))
+    } catch {
+      return invalidUpload("Request body must be valid JSON")
+    }
+
+    // Checked before the schema, which would report an oversized image as invalid input
+    const encoded = (json as { image?: unknown } | null)?.image
+    if (typeof encoded === "string" && base64DecodedSize(encoded) > MAX_IMAGE_BYTES) {
+      return tooLargeUpload()
+    }
+
+    const parsed = parseWithSchema(json, fieldsSchema.merge(base64ImageFieldsSchema))
+    if (parsed.response) return parsed
+
+    // The merged schema loses the field types, so restore them here
+    const { image, ...fields } = parsed.data as z.output<typeof base64ImageFieldsSchema> & z.output<T>
+    return { data: { ...fields, bytes: Buffer.from(image, "base64") } }
+  }
+
+  if (isMultipart) {
+    let form: FormData
+    try {
+      // Parsed from the bytes already read, with the boundary from the original content type
+      form = await new Response(body, { headers: { "content-type": contentType } }).formData()
+    } catch {
+      return invalidUpload("Request body must be valid multipart form data")
+    }
+
+    const image = form.get("image")
+    if (!(image instanceof Blob)) {
+      return invalidUpload("Image file is required", "image")
+    }
+
+    const fields = parseWithSchema(readFields(fieldsSchema, form), fieldsSchema)
+    if (fields.response) return fields
+
+    return { data: { ...fields.data, bytes: new Uint8Array(await image.arrayBuffer()) } }
+  }
+
+  const fields = parseWithSchema(readFields(fieldsSchema, new URL(request.url).searchParams), fieldsSchema)
+  if (fields.response) return fields
+
+  return { data: { ...fields.data, bytes: body } }
+}
@@ -0,0 +1,119 @@
+import { addRecord, clearRecords, deleteRecord, getAllRecords, putRecord, type StoredRecord } from "@/lib/idb"
+
+// People the user enrolled so the scan page can say who is in front of them. Only face descriptors and a name
+// are kept, never the photos, and only after the user agreed. They live on this device in a KnownPeopleStore;
+// call setKnownPeopleStore to keep them elsewhere, such as a server the user chose, and describe where in `location`.
+
+export interface KnownPersonEntry {
+  name: string
+  // One descriptor per enrollment photo, see faceDescriptor
+  descriptors: number[][]
+  enrolledAt: number
+}
+
+export type KnownPerson = StoredRecord<KnownPersonEntry>
+
+export interface KnownPeopleStore {
+  // Where the data is kept, read to the user before they agree, such as "on this device"
+  location: string
+  getPeople: () => Promise<KnownPerson[]>
+  savePerson: (entry: KnownPersonEntry) => Promise<KnownPerson>
+  deletePerson: (id: number) => Promise<void>
+  deleteAll: () => Promise<void>
+}
+
+// Photos taken to enroll one person
+export const ENROLLMENT_PHOTOS = 3
+
+const STORE = "known-people"
+const CONSENT_KEY = "vission-known-people-consent"
+
+// Default store, in IndexedDB on this device
+export function createDeviceStore(): KnownPeopleStore {
+  return {
+    location: "only on this device",
+    async getPeople() {
+      const people = await getAllRecords<KnownPersonEntry>(STORE)
+      return people.sort((a, b) => a.name.localeCompare(b.name))
+    },
+    async savePerson(entry) {
+      // Enrolling a name again adds the new photos to that person
+      const existing = (await getAllRecords<KnownPersonEntry>(STORE)).find(
+        (person) => person.name.toLowerCase() === entry.name.toLowerCase(),
+      )
+      if (existing) {
+        const updated = { ...existing, descriptors: [...existing.descriptors, ...entry.descriptors] }
+        await putRecord(STORE, updated)
+        return updated
+      }
+      return { ...entry, id: await addRecord(STORE, entry) }
+    },
+    async deletePerson(id) {
+      await deleteRecord(STORE, id)
+    },
+    async deleteAll() {
+      await clearRecords(STORE)
+    },
+  }
+}
+
+let store: KnownPeopleStore = createDeviceStore()
+
+// Replace the store, only with one the user chose
+export function setKnownPeopleStore(next: KnownPeopleStore) {
+  store = next
+}
+
+export function getKnownPeopleStore() {
+  return store
+}
+
+// Recognition stays off until the user agreed to keep face data
+export function hasKnownPeopleConsent() {
+  try {
+    return localStorage.getItem(CONSENT_KEY) === "true"
+  } catch {
+    return false
+  }
+}
+
+export function setKnownPeopleConsent(consent: boolean) {
+  try {
+    if (consent) localStorage.setItem(CONSENT_KEY, "true")
+    else localStorage.removeItem(CONSENT_KEY)
+  } catch {
+    // Private browsing, the consent only lasts for this page
+  }
+}
+
+// Said instead of enrolling or recognizing anyone when the browser cannot find faces (see canDetectFaces)
+export const FACE_DETECTION_UNAVAILABLE_MESSAGE =
+  "This browser cannot find faces in the camera picture, so people recognition is not available here."
+
+// Read before the user agrees, so they know what is kept and where
+export function describeConsentRequest() {
+  return `To recognize people, I keep a description of their face, not the photos, ${store.location}. Only enroll people who agreed to it. Say I agree or press I Agree to continue.`
+}
+
+// "remember this person as Anna", "enroll Anna" give the name to enroll
+export function parseEnrollName(command: string) {
+  const match = command.match(/\b(?:remember (?:this person|this face|them) as|enroll|enrol)\s+(.+)$/)
+  const name = match?.[1]?.replace(/[?.!]+$/, "").trim()
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : null
+}
+
+// Added after the scene description, "Anna and Ben are in front of you."
+export function describeRecognizedPeople(names: string[]) {
+  if (names.length === 0) return null
+  const list = names.length === 1 ? names[0] : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+  return `${list} ${names.length === 1 ? "is" : "are"} in front of you.`
+}
+
+// Read out on request, with how to remove them
+export function describeKnownPeople(people: KnownPersonEntry[]) {
+  if (people.length === 0)
+    return "Nobody is enrolled. Point the camera at a person and say remember this person as, then their name."
+  const names = people.map((person) => person.name)
+  const list = names.length === 1 ? names[0] : `${names.slice(0, -1).join(", ")}, and ${names[names.length - 1]}`
+  return `You enrolled ${people.length} ${people.length === 1 ? "person" : "people"}: ${list}. Say delete all people to remove them.`
+}
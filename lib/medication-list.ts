@@ -0,0 +1,39 @@
+import { addRecord, deleteRecord, getAllRecords, putRecord, type StoredRecord } from "@/lib/idb"
+import { findSavedMedication, isSameStrength, type MedicationEntry } from "@/lib/medication"
+import type { MedicationLabel } from "@/lib/schemas"
+
+// The user's own medications, kept only on the device, that new scans in medication mode are checked against
+
+export type SavedMedication = StoredRecord<MedicationEntry>
+
+const STORE = "medications"
+
+// Sorted by name
+export async function getMedications() {
+  const saved = await getAllRecords<MedicationEntry>(STORE)
+  return saved.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Saves a scanned label, or updates the purpose of the same medication saved before
+export async function saveMedication(label: MedicationLabel, purpose: string | null): Promise<SavedMedication> {
+  if (!label.name) throw new Error("Only medications with a readable name can be saved")
+
+  const existing = findSavedMedication(label, await getMedications())
+  if (existing && isSameStrength(existing.strength, label.strength)) {
+    const updated = { ...existing, purpose: purpose ?? existing.purpose }
+    await putRecord(STORE, updated)
+    return updated
+  }
+
+  const entry: MedicationEntry = {
+    name: label.name,
+    strength: label.strength ?? null,
+    purpose,
+    savedAt: Date.now(),
+  }
+  return { ...entry, id: await addRecord(STORE, entry) }
+}
+
+export function deleteMedication(id: number) {
+  return deleteRecord(STORE, id)
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest"
+import {
+  describeListCheck,
+  describeMedicationLabel,
+  findSavedMedication,
+  formatExpiry,
+  isExpired,
+  UNREADABLE_LABEL_MESSAGE,
+  type MedicationEntry,
+} from "@/lib/medication"
+import type { MedicationLabel } from "@/lib/schemas"
+
+const now = new Date(2026, 2, 15)
+
+const label = (fields: Partial<MedicationLabel> = {}): MedicationLabel => ({
+  legible: true,
+  name: "Amlodipine",
+  strength: "5 mg",
+  dosage: "Take one tablet once daily",
+  expiry: "2027-01",
+  warnings: [],
+  ...fields,
+})
+
+const entry = (name: string, strength: string | null, purpose: string | null = null): MedicationEntry => ({
+  name,
+  strength,
+  purpose,
+  savedAt: 0,
+})
+
+describe("isExpired", () => {
+  it("keeps month-only dates valid until the end of that month", () => {
+    expect(isExpired("2026-03", now)).toBe(false)
+    expect(isExpired("2026-03", new Date(2026, 2, 31, 23, 59))).toBe(false)
+    expect(isExpired("2026-03", new Date(2026, 3, 1))).toBe(true)
+    expect(isExpired("2026-02", now)).toBe(true)
+  })
+
+  it("keeps dates with a day valid until the end of that day", () => {
+    expect(isExpired("2026-03-15", now)).toBe(false)
+    expect(isExpired("2026-03-14", now)).toBe(true)
+  })
+})
+
+describe("formatExpiry", () => {
+  it("reads the month by name, with the day when printed", () => {
+    expect(formatExpiry("2026-03")).toBe("March 2026")
+    expect(formatExpiry("2026-12-05")).toBe("5 December 2026")
+  })
+})
+
+describe("describeMedicationLabel", () => {
+  it("reads the name, strength, directions and expiry", () => {
+    expect(describeMedicationLabel(label(), now)).toBe(
+      "Amlodipine 5 mg. Directions: Take one tablet once daily. Expires January 2027.",
+    )
+  })
+
+  it("warns first about an expired medicine", () => {
+    expect(describeMedicationLabel(label({ expiry: "2026-01" }), now)).toMatch(
+      /^Warning: this medicine expired in January 2026\. Amlodipine 5 mg\./,
+    )
+  })
+
+  it("says what it could not read", () => {
+    const description = describeMedicationLabel(label({ strength: null, expiry: null, dosage: null }), now)
+    expect(description).toBe("Amlodipine. I could not read the strength. I could not find the expiry date.")
+  })
+
+  it("never describes an unreadable label", () => {
+    expect(describeMedicationLabel(label({ legible: false }), now)).toBe(UNREADABLE_LABEL_MESSAGE)
+    expect(describeMedicationLabel(label({ name: null }), now)).toBe(UNREADABLE_LABEL_MESSAGE)
+  })
+})
+
+describe("findSavedMedication", () => {
+  it("matches names regardless of case and prefers the same strength", () => {
+    const saved = [entry("Amlodipine", "10 mg"), entry("amlodipine", "5mg")]
+    expect(findSavedMedication(label(), saved)).toBe(saved[1])
+  })
+
+  it("falls back to the same name with another strength", () => {
+    const saved = [entry("Metformin", "500 mg"), entry("Amlodipine", "10 mg")]
+    expect(findSavedMedication(label(), saved)).toBe(saved[1])
+    expect(findSavedMedication(label({ name: "Ibuprofen" }), saved)).toBeUndefined()
+  })
+})
+
+describe("describeListCheck", () => {
+  it("names the purpose of a saved medication", () => {
+    expect(describeListCheck(label(), [entry("Amlodipine", "5 mg", "blood pressure")])).toBe(
+      "This is your blood pressure medication.",
+    )
+  })
+
+  it("warns when the strength differs from the saved one", () => {
+    expect(describeListCheck(label(), [entry("Amlodipine", "10 mg")])).toBe(
+      "Careful: your saved Amlodipine is 10 mg, but this label says 5 mg.",
+    )
+  })
+
+  it("says when the medicine is not on the list, and nothing without a list", () => {
+    expect(describeListCheck(label(), [entry("Metformin", "500 mg")])).toBe("This medicine is not on your list.")
+    expect(describeListCheck(label(), [])).toBeNull()
+  })
+})
@@ -0,0 +1,114 @@
+import type { MedicationLabel } from "@/lib/schemas"
+
+// Medication mode: turns a structured label into the phrase to speak, and checks it against the user's own list.
+// Expiry and unreadable labels come first, since taking the wrong or an expired medicine is the real danger.
+
+// A medication the user saved to their list on this device
+export interface MedicationEntry {
+  name: string
+  strength: string | null
+  // What the user takes it for, such as "blood pressure"
+  purpose: string | null
+  savedAt: number
+}
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+]
+
+// A label without a readable name is never described, the user should not rely on a guess
+export const UNREADABLE_LABEL_MESSAGE =
+  "I can't read this label clearly. Turn the bottle slowly under good light and try again. Do not take a medicine you cannot identify."
+
+// Month-only dates are valid until the end of that month
+export function isExpired(expiry: string, now = new Date()) {
+  const [year, month, day] = expiry.split("-").map(Number)
+  const end = day ? new Date(year, month - 1, day + 1) : new Date(year, month, 1)
+  return now >= end
+}
+
+// "March 2026", or "12 March 2026" when the day is printed
+export function formatExpiry(expiry: string) {
+  const [year, month, day] = expiry.split("-").map(Number)
+  return `${day ? `${day} ` : ""}${MONTHS[month - 1]} ${year}`
+}
+
+// "Amlodipine 5 mg"
+export function medicationName(medication: { name?: string | null; strength?: string | null }) {
+  return [medication.name, medication.strength].filter(Boolean).join(" ")
+}
+
+export function describeMedicationLabel(label: MedicationLabel, now = new Date()) {
+  if (!label.legible || !label.name) return UNREADABLE_LABEL_MESSAGE
+
+  const parts: string[] = []
+  if (label.expiry && isExpired(label.expiry, now)) {
+    parts.push(`Warning: this medicine expired in ${formatExpiry(label.expiry)}.`)
+  }
+
+  parts.push(`${medicationName(label)}.`)
+  if (!label.strength) parts.push("I could not read the strength.")
+  if (label.dosage) parts.push(`Directions: ${label.dosage.replace(/\.?$/, ".")}`)
+
+  if (!label.expiry) parts.push("I could not find the expiry date.")
+  else if (!isExpired(label.expiry, now)) parts.push(`Expires ${formatExpiry(label.expiry)}.`)
+
+  if (label.warnings.length) {
+    parts.push(`Label warnings: ${label.warnings.map((warning) => warning.replace(/\.?$/, ".")).join(" ")}`)
+  }
+
+  return parts.join(" ")
+}
+
+// Compares names and strengths without case, spaces or punctuation, so "5mg" matches "5 mg"
+function normalize(value: string | null | undefined) {
+  return (value ?? "").toLowerCase().replace(/[^\p{L}\p{N}.]/gu, "")
+}
+
+export function isSameStrength(a: string | null | undefined, b: string | null | undefined) {
+  return normalize(a) === normalize(b)
+}
+
+// The saved medication this label is for, preferring one with the same strength
+export function findSavedMedication<T extends MedicationEntry>(label: MedicationLabel, saved: T[]) {
+  const name = normalize(label.name)
+  if (!name) return undefined
+
+  const sameName = saved.filter((entry) => normalize(entry.name) === name)
+  return sameName.find((entry) => isSameStrength(entry.strength, label.strength)) ?? sameName[0]
+}
+
+// Said before the label itself: whether this is one of the user's medications, and a warning when the strength differs
+export function describeListCheck(label: MedicationLabel, saved: MedicationEntry[]) {
+  if (saved.length === 0 || !label.legible || !label.name) return null
+
+  const match = findSavedMedication(label, saved)
+  if (!match) return "This medicine is not on your list."
+
+  if (match.strength && label.strength && !isSameStrength(match.strength, label.strength)) {
+    return `Careful: your saved ${match.name} is ${match.strength}, but this label says ${label.strength}.`
+  }
+
+  return match.purpose ? `This is your ${match.purpose} medication.` : "This medicine is on your list."
+}
+
+// Read out on request, "Amlodipine 5 mg for blood pressure, and Metformin 500 mg."
+export function describeMedicationList(saved: MedicationEntry[]) {
+  if (saved.length === 0)
+    return "Your medication list is empty. Scan a label in medication mode and say save this medication."
+
+  const items = saved.map((entry) => `${medicationName(entry)}${entry.purpose ? ` for ${entry.purpose}` : ""}`)
+  const list = items.length === 1 ? items[0] : `${items.slice(0, -1).join(", ")}, and ${items[items.length - 1]}`
+  return `You have ${saved.length} medication${saved.length === 1 ? "" : "s"} saved: ${list}.`
+}
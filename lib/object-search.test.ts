@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import {
+  describeLocation,
+  guidanceTone,
+  guidanceVibration,
+  isObjectReached,
+  mirrorLocation,
+  parseSearchTarget,
+} from "@/lib/object-search"
+
+const NOT_FOUND = { found: false, position: null, distance: null }
+
+describe("parseSearchTarget", () => {
+  it("reads the object from a search command", () => {
+    expect(parseSearchTarget("find my keys")).toBe("keys")
+    expect(parseSearchTarget("where is the door?")).toBe("door")
+    expect(parseSearchTarget("where's my phone")).toBe("phone")
+    expect(parseSearchTarget("look for a red mug")).toBe("red mug")
+    expect(parseSearchTarget("can you find my glasses")).toBe("glasses")
+  })
+
+  it("ignores sentences that only contain the words", () => {
+    expect(parseSearchTarget("tell me where is the exit sign in this picture")).toBeNull()
+    expect(parseSearchTarget("i cannot find it")).toBeNull()
+    expect(parseSearchTarget("what color is the chair")).toBeNull()
+    expect(parseSearchTarget("find")).toBeNull()
+  })
+
+  it("leaves where questions to an open picture", () => {
+    expect(parseSearchTarget("where is the door", false)).toBeNull()
+    expect(parseSearchTarget("where are my shoes", false)).toBeNull()
+    expect(parseSearchTarget("find my keys", false)).toBe("keys")
+  })
+})
+
+describe("describeLocation", () => {
+  it("says the direction and how far", () => {
+    expect(describeLocation("keys", { found: true, position: "left", distance: "far" })).toBe(
+      "Keys to your left, further away.",
+    )
+    expect(describeLocation("keys", { found: true, position: "center", distance: "far" })).toBe(
+      "Keys ahead, further away.",
+    )
+    expect(describeLocation("keys", { found: true, position: "right", distance: "near" })).toBe("Keys to your right.")
+  })
+
+  it("says when the object is reached or not seen", () => {
+    expect(describeLocation("keys", { found: true, position: "center", distance: "near" })).toBe(
+      "Keys right in front of you.",
+    )
+    expect(describeLocation("keys", NOT_FOUND)).toBe("I can't see keys yet. Turn slowly.")
+  })
+})
+
+describe("mirrorLocation", () => {
+  it("swaps left and right for the front camera", () => {
+    expect(mirrorLocation({ found: true, position: "left", distance: "far" }).position).toBe("right")
+    expect(mirrorLocation({ found: true, position: "center", distance: "far" }).position).toBe("center")
+  })
+})
+
+describe("guidance", () => {
+  it("rises in tone and vibration as the object gets centered and closer", () => {
+    const side = { found: true, position: "left", distance: "far" } as const
+    const ahead = { found: true, position: "center", distance: "far" } as const
+    const reached = { found: true, position: "center", distance: "near" } as const
+
+    expect([guidanceTone(side), guidanceTone(ahead), guidanceTone(reached)]).toEqual([330, 523, 784])
+    expect(guidanceVibration(side)).toEqual([60])
+    expect(guidanceVibration(ahead)).toEqual([120, 80, 120])
+    expect(isObjectReached(reached)).toBe(true)
+    expect(isObjectReached(ahead)).toBe(false)
+  })
+
+  it("is silent when the object is not seen", () => {
+    expect(guidanceTone(NOT_FOUND)).toBeNull()
+    expect(guidanceVibration(NOT_FOUND)).toBeNull()
+  })
+})
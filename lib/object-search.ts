@@ -0,0 +1,57 @@
+import type { ObjectLocation } from "@/lib/schemas"
+
+// Search mode: the user names an object, each frame says whether and where it is, and the page guides
+// them with short words, tones that rise as the object gets centered and closer, and vibrations.
+
+// Time between frames while searching
+export const SEARCH_INTERVAL_MS = 1500
+// The search gives up after this long
+export const MAX_SEARCH_MS = 120_000
+
+// "find my keys", "where is the door", "look for my phone" give the object to search for. Only a command
+// starting with these counts, so a sentence that merely contains "where is" is not a search. Without
+// `questions`, as while a picture is open for follow-up questions, only "find" and "look for" count.
+export function parseSearchTarget(command: string, questions = true) {
+  const verbs = questions ? "find|look for|search for|where is|where are|where's" : "find|look for|search for"
+  const match = command
+    .trim()
+    .match(new RegExp(`^(?:please |can you |help me )?(?:${verbs})\\s+(?:my |the |a |an )?(.+)$`))
+  const target = match?.[1]?.replace(/[?.!]+$/, "").trim()
+  return target || null
+}
+
+// With the front camera the picture is mirrored, so left and right are swapped for the user
+export function mirrorLocation(location: ObjectLocation): ObjectLocation {
+  if (location.position === "left") return { ...location, position: "right" }
+  if (location.position === "right") return { ...location, position: "left" }
+  return location
+}
+
+// Centered and within reach, the search is over
+export function isObjectReached(location: ObjectLocation) {
+  return location.found && location.position === "center" && location.distance === "near"
+}
+
+// "Keys to your left, far away." Short, since it is repeated as the user moves.
+export function describeLocation(target: string, location: ObjectLocation) {
+  const name = target.charAt(0).toUpperCase() + target.slice(1)
+  if (!location.found || !location.position) return `I can't see ${target} yet. Turn slowly.`
+  if (isObjectReached(location)) return `${name} right in front of you.`
+
+  const where = location.position === "center" ? "ahead" : `to your ${location.position}`
+  return `${name} ${where}${location.distance === "far" ? ", further away" : ""}.`
+}
+
+// Tone for the frame, higher as the object gets centered and closer. Null when it was not found.
+export function guidanceTone(location: ObjectLocation) {
+  if (!location.found || !location.position) return null
+  if (location.position !== "center") return 330
+  return location.distance === "near" ? 784 : 523
+}
+
+// Vibration for the frame: a tap when the object is off to one side, a double when it is ahead, long when reached
+export function guidanceVibration(location: ObjectLocation) {
+  if (!location.found || !location.position) return null
+  if (isObjectReached(location)) return [300, 100, 300, 100, 300]
+  return location.position === "center" ? [120, 80, 120] : [60]
+}
@@ -0,0 +1,51 @@
+import { addRecord, countRecords, deleteRecord, getAllRecords } from "@/lib/idb"
+import type { AnalysisMode } from "@/lib/schemas"
+
+// Frames captured while offline, kept on the device until they can be analyzed
+export interface PendingFrame {
+  // Encoded frame as captured, IndexedDB stores blobs directly
+  image: Blob
+  prompt: string
+  // Analyzed in the same mode once back online. Frames queued before modes were kept are described.
+  mode?: AnalysisMode
+  // The colors color mode measured on the device
+  measuredColors?: string[]
+  capturedAt: number
+}
+
+const STORE = "pending-frames"
+
+// Older frames are dropped beyond this, they are unlikely to still be useful
+const MAX_PENDING_FRAMES = 10
+
+export async function queueFrame(frame: PendingFrame) {
+  await addRecord(STORE, frame)
+
+  const frames = await getAllRecords<PendingFrame>(STORE)
+  for (const stale of frames.slice(0, Math.max(0, frames.length - MAX_PENDING_FRAMES))) {
+    await deleteRecord(STORE, stale.id)
+  }
+}
+
+// Oldest first
+export function getPendingFrames() {
+  return getAllRecords<PendingFrame>(STORE)
+}
+
+export function removePendingFrame(id: number) {
+  return deleteRecord(STORE, id)
+}
+
+export function countPendingFrames() {
+  return countRecords(STORE)
+}
+
+// "2 minutes ago" style age of a queued frame, for announcing late results
+export function describeAge(capturedAt: number, now = Date.now()) {
+  const minutes = Math.round((now - capturedAt) / 60000)
+  if (minutes < 1) return "less than a minute ago"
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"} ago`
+
+  const hours = Math.round(minutes / 60)
+  return `${hours} hour${hours === 1 ? "" : "s"} ago`
+}
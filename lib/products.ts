@@ -0,0 +1,103 @@
+import type { Product } from "@/lib/schemas"
+
+// What product mode says about the codes it reads (see lib/barcode).
+// Links in QR codes are never opened without a warning and an explicit request from the user.
+
+export interface QrCodeInfo {
+  message: string
+  // Web link the user can choose to open, null for other content
+  link: string | null
+}
+
+// Services that hide where a link really goes
+const LINK_SHORTENERS = [
+  "bit.ly",
+  "tinyurl.com",
+  "t.co",
+  "goo.gl",
+  "is.gd",
+  "ow.ly",
+  "buff.ly",
+  "rebrand.ly",
+  "cutt.ly",
+]
+
+// QR text longer than this is cut short when read aloud
+const MAX_SPOKEN_TEXT = 300
+
+function listNames(names: string[]) {
+  if (names.length <= 1) return names.join("")
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`
+}
+
+// "Sample Dairy Whole milk, 1 l. Contains milk." Allergens are always mentioned, even when there are none.
+export function describeProduct(product: Product) {
+  const name = [product.brand, product.name].filter(Boolean).join(" ")
+  const parts = [product.size ? `${name}, ${product.size}.` : `${name}.`]
+
+  parts.push(product.allergens.length ? `Contains ${listNames(product.allergens)}.` : "No allergens listed.")
+  if (product.traces.length) parts.push(`May contain ${listNames(product.traces)}.`)
+
+  return parts.join(" ")
+}
+
+// Digits are read one by one, so the number can be checked on the package
+export function describeUnknownProduct(code: string) {
+  return `Barcode ${[...code].join(" ")}. This product is not in the catalog.`
+}
+
+function linkWarnings(url: URL) {
+  const host = url.hostname.toLowerCase()
+  const warnings: string[] = []
+
+  if (url.protocol === "http:") warnings.push("It does not use a secure connection.")
+  if (/^[\d.]+$/.test(host) || host.startsWith("[")) warnings.push("It points to a numeric address instead of a name.")
+  if (host.split(".").some((label) => label.startsWith("xn--"))) {
+    warnings.push("Its address uses unusual characters that can imitate another site.")
+  }
+  if (LINK_SHORTENERS.includes(host.replace(/^www\./, ""))) {
+    warnings.push("It is a shortened link, so the real destination is hidden.")
+  }
+  if (url.username || url.password) warnings.push("It contains a hidden user name, a common trick.")
+
+  return warnings
+}
+
+// Reads a QR code aloud. Web links come with a safety warning and are only offered, never opened.
+export function describeQrCode(value: string): QrCodeInfo {
+  const text = value.trim()
+
+  if (/^https?:\/\//i.test(text)) {
+    try {
+      const url = new URL(text)
+      const host = url.hostname.replace(/^www\./, "")
+      const message = [
+        `QR code with a link to ${host}.`,
+        ...linkWarnings(url),
+        "Links from QR codes can lead to harmful sites. Say open link only if you trust where it came from.",
+      ].join(" ")
+      return { message, link: url.href }
+    } catch {
+      // Not a valid address, read as plain text below
+    }
+  }
+
+  if (/^WIFI:/i.test(text)) {
+    const network = text.match(/(?:^WIFI:|;)S:((?:\\.|[^;])*)/i)?.[1]?.replace(/\\(.)/g, "$1")
+    return {
+      message: network ? `QR code with the Wi-Fi details of the network ${network}.` : "QR code with Wi-Fi details.",
+      link: null,
+    }
+  }
+
+  if (/^tel:/i.test(text)) {
+    return { message: `QR code with the phone number ${text.slice(4)}.`, link: null }
+  }
+
+  if (/^mailto:/i.test(text)) {
+    return { message: `QR code with the email address ${text.slice(7).split("?")[0]}.`, link: null }
+  }
+
+  const spoken = text.length > MAX_SPOKEN_TEXT ? `${text.slice(0, MAX_SPOKEN_TEXT)}, and more` : text
+  return { message: spoken ? `QR code: ${spoken}` : "The QR code is empty.", link: null }
+}
@@ -0,0 +1,185 @@
+import type { Content, GenerativeModel, Part } from "@google/generative-ai"
+import { AIServiceError, errorCodeFromStatus, toAIServiceError } from "@/lib/errors"
+import type { CallOptions, ChatMessage, ImageInput, ModelProvider, ProviderConfig, ProviderDefinition } from "./types"
+
+// Maps errors thrown by the SDK to our taxonomy. The SDK classes are only loaded
+// through the dynamic import, so they are recognised by shape instead of instanceof.
+function toGeminiError(error: unknown): AIServiceError {
+  if (error instanceof AIServiceError || !(error instanceof Error)) return toAIServiceError(error)
+
+  const message = error.message
+
+  // An invalid key is reported as a 400 with API_KEY_INVALID in the details
+  if (/API_KEY_INVALID|API key not valid/i.test(message)) {
+    return new AIServiceError("auth", message, { cause: error })
+  }
+
+  // GoogleGenerativeAIResponseError carries the blocked response
+  if ("response" in error || /blocked/i.test(message)) {
+    return new AIServiceError("safety_blocked", message, { cause: error })
+  }
+
+  // GoogleGenerativeAIFetchError carries the HTTP status
+  if ("status" in error && typeof error.status === "number") {
+    return new AIServiceError(errorCodeFromStatus(error.status), message, { cause: error })
+  }
+
+  if (/aborted|timed? ?out/i.test(message)) {
+    return new AIServiceError("upstream_timeout", message, { cause: error })
+  }
+
+  return toAIServiceError(error)
+}
+
+// Gemini provider backed by the @google/generative-ai SDK
+function createGeminiProvider(config: ProviderConfig): ModelProvider {
+  let modelPromise: Promise<GenerativeModel> | null = null
+
+  // Use dynamic import to ensure the package is only loaded on the server,
+  // and create the client once per provider instead of once per call
+  const getModel = () => {
+    if (!modelPromise) {
+      modelPromise = import("@google/generative-ai").then(({ GoogleGenerativeAI }) => {
+        const genAI = new GoogleGenerativeAI(config.apiKey ?? "")
+        return genAI.getGenerativeModel({ model: config.model })
+      })
+      // Allow a later call to retry if the import failed
+      modelPromise.catch(() => {
+        modelPromise = null
+      })
+    }
+    return modelPromise
+  }
+
+  // Builds a chat session from our message format, returning the message still to be sent.
+  // An image, when given, is attached to the first user message.
+  const startChat = async (messages: ChatMessage[], systemPrompt?: string, image?: ImageInput) => {
+    const model = await getModel()
+
+    // Convert messages to Gemini format - filter out system messages
+    const formattedMessages: Content[] = messages
+      .filter((msg) => msg.role !== "system")
+      .map((msg) => ({
+        role: msg.role === "user" ? "user" : "model",
+        parts: [{ text: msg.content }],
+      }))
+
+    // Make sure we have at least one user message
+    if (formattedMessages.length === 0 || formattedMessages[0].role !== "user") {
+      formattedMessages.unshift({
+        role: "user",
+        parts: [{ text: "Hello" }],
+      })
+    }
+
+    // If we have a system prompt, prepend it to the first user message
+    if (systemPrompt) {
+      const firstUserMessage = formattedMessages[0].parts[0].text
+      formattedMessages[0].parts[0] = { text: `${systemPrompt}\n\nUser: ${firstUserMessage}` }
+    }
+
+    if (image) {
+      formattedMessages[0].parts.unshift({ inlineData: { data: image.data, mimeType: image.mimeType } })
+    }
+
+    // Start chat with history (excluding the last message)
+    const chat = model.startChat({
+      history: formattedMessages.slice(0, -1),
+    })
+
+    // Get the last message content (which should be from the user), with the image if it is also the first
+    const lastMessage = formattedMessages[formattedMessages.length - 1]
+    const lastMessageContent: Part[] = lastMessage.role === "user" ? lastMessage.parts : [{ text: "Hello" }]
+
+    return { chat, lastMessageContent }
+  }
+
+  return {
+    name: "gemini",
+
+    async generateText(prompt: string, options?: CallOptions) {
+      try {
+        const model = await getModel()
+        const result = await model.generateContent(prompt, { signal: options?.signal })
+        const response = await result.response
+        return response.text()
+      } catch (error) {
+        throw toGeminiError(error)
+      }
+    },
+
+    async analyzeImage(image: ImageInput, prompt: string, options?: CallOptions) {
+      try {
+        const model = await getModel()
+
+        // Create parts array with the image followed by the prompt
+        const parts: Part[] = [
+          {
+            inlineData: {
+              data: image.data,
+              mimeType: image.mimeType,
+            },
+          },
+          { text: prompt },
+        ]
+
+        const result = await model.generateContent(
+          {
+            contents: [{ role: "user", parts }],
+          },
+          { signal: options?.signal },
+        )
+
+        const response = await result.response
+        return response.text()
+      } catch (error) {
+        throw toGeminiError(error)
+      }
+    },
+
+    async chat(messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) {
+      try {
+        const { chat, lastMessageContent } = await startChat(messages, systemPrompt)
+        const result = await chat.sendMessage(lastMessageContent, { signal: options?.signal })
+        const response = await result.response
+        return response.text()
+      } catch (error) {
+        throw toGeminiError(error)
+      }
+    },
+
+    async chatAboutImage(image: ImageInput, messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) {
+      try {
+        const { chat, lastMessageContent } = await startChat(messages, systemPrompt, image)
+        const result = await chat.sendMessage(lastMessageContent, { signal: options?.signal })
+        const response = await result.response
+        return response.text()
+      } catch (error) {
+        throw toGeminiError(error)
+      }
+    },
+
+    async *streamChat(messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) {
+      try {
+        const { chat, lastMessageContent } = await startChat(messages, systemPrompt)
+        const result = await chat.sendMessageStream(lastMessageContent, { signal: options?.signal })
+
+        for await (const chunk of result.stream) {
+          const text = chunk.text()
+          if (text) yield text
+        }
+      } catch (error) {
+        throw toGeminiError(error)
+      }
+    },
+  }
+}
+
+export const geminiProvider: ProviderDefinition = {
+  configFromEnv: (env) => ({
+    model: env.AI_MODEL || "gemini-1.5-flash",
+    apiKey: env.GOOGLE_API_KEY,
+  }),
+  validate: (config) => (config.apiKey ? null : "GOOGLE_API_KEY environment variable is not set"),
+  create: createGeminiProvider,
+}
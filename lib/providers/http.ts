@@ -0,0 +1,89 @@
+import { AIServiceError, errorCodeFromStatus, parseRetryAfter, toAIServiceError } from "@/lib/errors"
+
+// POSTs a JSON body and throws an AIServiceError on network failures or a non-2xx status
+async function post(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    })
+  } catch (error) {
+    throw toAIServiceError(error)
+  }
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => "")
+    throw new AIServiceError(
+      errorCodeFromStatus(response.status),
+      `Request to ${url} failed with status ${response.status}${details ? `: ${details}` : ""}`,
+      { retryAfterSeconds: parseRetryAfter(response) },
+    )
+  }
+
+  return response
+}
+
+// Small fetch helper shared by the HTTP based providers
+export async function postJson<T>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal,
+): Promise<T> {
+  const response = await post(url, body, headers, signal)
+  return (await response.json()) as T
+}
+
+// Strips a trailing slash so paths can be appended safely
+export function trimBaseUrl(baseUrl: string) {
+  return baseUrl.replace(/\/+$/, "")
+}
+
+// Same as postJson, but returns the response body so it can be read as it arrives
+export async function postStream(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal,
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await post(url, body, headers, signal)
+
+  if (!response.body) {
+    throw new AIServiceError("upstream_error", `Request to ${url} returned an empty body`)
+  }
+
+  return response.body
+}
+
+// Splits a byte stream into lines, used for SSE and NDJSON responses
+export async function* readLines(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() ?? ""
+
+      for (const line of lines) {
+        if (line.trim()) yield line
+      }
+    }
+
+    buffer += decoder.decode()
+    if (buffer.trim()) yield buffer
+  } finally {
+    reader.releaseLock()
+  }
+}
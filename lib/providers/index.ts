@@ -0,0 +1,80 @@
+// Mark this file as server-only so provider credentials never reach the client
+import "server-only"
+
+import { AIServiceError } from "@/lib/errors"
+import { geminiProvider } from "./gemini"
+import { mockProvider } from "./mock"
+import { ollamaProvider } from "./ollama"
+import { openAICompatibleProvider } from "./openai-compatible"
+import type { ModelProvider, ProviderConfig, ProviderDefinition } from "./types"
+
+export type { CallOptions, ChatMessage, ImageInput, ModelProvider, ProviderConfig, ProviderDefinition } from "./types"
+
+const DEFAULT_PROVIDER = "gemini"
+
+// A registered provider with its config type erased, both read the settings from the environment when called
+interface RegisteredProvider {
+  validate: () => string | null
+  create: () => ModelProvider
+}
+
+function toRegistered<TConfig extends ProviderConfig>(definition: ProviderDefinition<TConfig>): RegisteredProvider {
+  return {
+    validate: () => definition.validate(definition.configFromEnv(process.env)),
+    create: () => definition.create(definition.configFromEnv(process.env)),
+  }
+}
+
+// Registry of available providers, keyed by the value of the AI_PROVIDER env variable
+const registry = new Map<string, RegisteredProvider>([
+  ["gemini", toRegistered(geminiProvider)],
+  ["openai", toRegistered(openAICompatibleProvider)],
+  ["ollama", toRegistered(ollamaProvider)],
+  // Offline fixture-driven provider for development and tests
+  ["mock", toRegistered(mockProvider)],
+])
+
+// Cached instances so clients are created once per process
+const instances = new Map<string, ModelProvider>()
+
+// Register an additional provider (or replace a built-in one)
+export function registerProvider<TConfig extends ProviderConfig>(
+  name: string,
+  definition: ProviderDefinition<TConfig>,
+) {
+  registry.set(name, toRegistered(definition))
+  instances.delete(name)
+}
+
+// Name of the provider selected by configuration
+export function getProviderName() {
+  return (process.env.AI_PROVIDER || DEFAULT_PROVIDER).toLowerCase()
+}
+
+// Returns a description of the configuration problem, or null when the selected provider is usable
+export function getProviderConfigError(): string | null {
+  const name = getProviderName()
+  const definition = registry.get(name)
+
+  if (!definition) {
+    return `Unknown AI_PROVIDER "${name}". Available providers: ${[...registry.keys()].join(", ")}`
+  }
+
+  return definition.validate()
+}
+
+// Get the provider selected by configuration
+export function getProvider(): ModelProvider {
+  const name = getProviderName()
+  const cached = instances.get(name)
+  if (cached) return cached
+
+  const configError = getProviderConfigError()
+  if (configError) {
+    throw new AIServiceError("not_configured", configError)
+  }
+
+  const provider = registry.get(name)!.create()
+  instances.set(name, provider)
+  return provider
+}
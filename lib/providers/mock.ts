@@ -0,0 +1,158 @@
+import { createHash } from "node:crypto"
+import { existsSync, readFileSync } from "node:fs"
+import { AIServiceError, type AIErrorCode } from "@/lib/errors"
+import defaultFixtures from "./mock-fixtures.json"
+import type { ChatMessage, ImageInput, ModelProvider, ProviderConfig, ProviderDefinition } from "./types"
+
+// A canned reply, or an injected failure, for one fixture key
+export interface MockFixture {
+  reply?: string
+  error?: string
+  // Error code for the injected failure, defaults to upstream_error
+  errorCode?: AIErrorCode
+  latencyMs?: number
+}
+
+export type MockFixtures = Record<string, MockFixture>
+
+export interface MockProviderConfig extends ProviderConfig {
+  // JSON file of extra fixtures, layered on top of the built-in ones
+  fixturesPath?: string
+  // Delay applied to every call unless the fixture sets its own
+  latencyMs: number
+  // When set, every Nth call fails with a simulated upstream error
+  failEvery: number
+  // Delay between streamed words
+  chunkDelayMs: number
+}
+
+// Short stable hash of a prompt or of base64 image data
+export function hashInput(value: string) {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16)
+}
+
+// Prompts are normalized so fixtures are not sensitive to casing or stray whitespace
+function hashPrompt(prompt: string) {
+  return hashInput(prompt.trim().toLowerCase())
+}
+
+// Fixture keys, most specific first:
+//   text:<promptHash>
+//   chat:<hash of last user message>
+//   image:<imageHash>:<promptHash>, image:<imageHash>, image:*:<promptHash>, image:*:<instructionsHash>
+// The instructions are the prompt up to its first blank line. Details added after one, such as the
+// colors measured on the device, change with every picture, so the last key ignores them.
+export function mockFixtureKeys(kind: "text" | "chat" | "image", prompt: string, imageData?: string) {
+  const promptHash = hashPrompt(prompt)
+
+  if (kind !== "image" || imageData === undefined) {
+    return [`${kind}:${promptHash}`]
+  }
+
+  const imageHash = hashInput(imageData)
+  const keys = [`image:${imageHash}:${promptHash}`, `image:${imageHash}`, `image:*:${promptHash}`]
+  const instructions = prompt.split(/\n\s*\n/)[0]
+  return instructions === prompt ? keys : [...keys, `image:*:${hashPrompt(instructions)}`]
+}
+
+function loadFixtures(path?: string): MockFixtures {
+  if (!path) return defaultFixtures as MockFixtures
+
+  const custom = JSON.parse(readFileSync(path, "utf8")) as MockFixtures
+  return { ...defaultFixtures, ...custom }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Chat fixtures are keyed by the last user message
+function chatKeys(messages: ChatMessage[]) {
+  const lastUserMessage = [...messages].reverse().find((msg) => msg.role === "user")
+  return mockFixtureKeys("chat", lastUserMessage?.content ?? "")
+}
+
+// Deterministic offline provider for development and automated tests
+function createMockProvider(config: MockProviderConfig): ModelProvider {
+  const fixtures = loadFixtures(config.fixturesPath)
+  let callCount = 0
+
+  const respond = async (keys: string[], fallback: string) => {
+    callCount += 1
+
+    const key = keys.find((candidate) => candidate in fixtures)
+    const fixture = key ? fixtures[key] : undefined
+
+    const latency = fixture?.latencyMs ?? config.latencyMs
+    if (latency > 0) {
+      await sleep(latency)
+    }
+
+    if (config.failEvery > 0 && callCount % config.failEvery === 0) {
+      throw new AIServiceError("upstream_error", `Mock provider simulated failure on call ${callCount}`)
+    }
+
+    if (fixture?.error || fixture?.errorCode) {
+      throw new AIServiceError(fixture.errorCode ?? "upstream_error", fixture.error ?? "Mock provider injected failure")
+    }
+
+    // Unmatched calls echo their key so it can be copied into a fixture file
+    return fixture?.reply ?? `${fallback} (mock fixture key: ${keys[0]})`
+  }
+
+  return {
+    name: "mock",
+
+    generateText(prompt: string) {
+      return respond(mockFixtureKeys("text", prompt), "This is a mock text response.")
+    },
+
+    analyzeImage(image: ImageInput, prompt: string) {
+      return respond(
+        mockFixtureKeys("image", prompt, image.data),
+        "This is a mock image description. No real analysis was performed.",
+      )
+    },
+
+    // Follow-ups are keyed like image fixtures, with the latest question as the prompt
+    chatAboutImage(image: ImageInput, messages: ChatMessage[]) {
+      const lastUserMessage = [...messages].reverse().find((msg) => msg.role === "user")
+      return respond(
+        mockFixtureKeys("image", lastUserMessage?.content ?? "", image.data),
+        "This is a mock answer about the image. No real analysis was performed.",
+      )
+    },
+
+    chat(messages: ChatMessage[]) {
+      return respond(chatKeys(messages), "This is a mock chat response.")
+    },
+
+    async *streamChat(messages: ChatMessage[]) {
+      const reply = await respond(chatKeys(messages), "This is a mock chat response.")
+
+      // Stream the canned reply word by word, keeping the whitespace
+      for (const word of reply.match(/\S+\s*/g) ?? []) {
+        if (config.chunkDelayMs > 0) {
+          await sleep(config.chunkDelayMs)
+        }
+        yield word
+      }
+    },
+  }
+}
+
+export const mockProvider: ProviderDefinition<MockProviderConfig> = {
+  configFromEnv: (env) => ({
+    model: "mock",
+    fixturesPath: env.MOCK_FIXTURES_PATH,
+    latencyMs: Number(env.MOCK_LATENCY_MS) || 0,
+    failEvery: Number(env.MOCK_FAIL_EVERY) || 0,
+    chunkDelayMs: Number(env.MOCK_CHUNK_DELAY_MS) || 0,
+  }),
+  // Needs no credentials or network, only a readable fixture file when one is given
+  validate: (config) =>
+    config.fixturesPath && !existsSync(config.fixturesPath)
+      ? `MOCK_FIXTURES_PATH "${config.fixturesPath}" does not exist`
+      : null,
+  create: createMockProvider,
+}
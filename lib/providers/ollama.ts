@@ -0,0 +1,96 @@
+import { postJson, postStream, readLines, trimBaseUrl } from "./http"
+import type { CallOptions, ChatMessage, ImageInput, ModelProvider, ProviderConfig, ProviderDefinition } from "./types"
+
+interface OllamaMessage {
+  role: string
+  content: string
+  images?: string[]
+}
+
+interface OllamaChatResponse {
+  message: { content: string }
+  done?: boolean
+}
+
+// Provider for a local Ollama-style server, so no data leaves the deployment
+function createOllamaProvider(config: ProviderConfig): ModelProvider {
+  const baseUrl = trimBaseUrl(config.baseUrl ?? "http://localhost:11434")
+
+  const complete = async (messages: OllamaMessage[], options?: CallOptions) => {
+    const data = await postJson<OllamaChatResponse>(
+      `${baseUrl}/api/chat`,
+      { model: config.model, messages, stream: false },
+      {},
+      options?.signal,
+    )
+
+    return data.message.content
+  }
+
+  const formatChat = (messages: ChatMessage[], systemPrompt?: string) => {
+    const formattedMessages: OllamaMessage[] = messages
+      .filter((msg) => msg.role !== "system")
+      .map((msg) => ({ role: msg.role === "user" ? "user" : "assistant", content: msg.content }))
+
+    if (systemPrompt) {
+      formattedMessages.unshift({ role: "system", content: systemPrompt })
+    }
+
+    return formattedMessages
+  }
+
+  return {
+    name: "ollama",
+
+    generateText(prompt: string, options?: CallOptions) {
+      return complete([{ role: "user", content: prompt }], options)
+    },
+
+    analyzeImage(image: ImageInput, prompt: string, options?: CallOptions) {
+      // Ollama takes raw base64 images alongside the message text
+      return complete([{ role: "user", content: prompt, images: [image.data] }], options)
+    },
+
+    chat(messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) {
+      return complete(formatChat(messages, systemPrompt), options)
+    },
+
+    chatAboutImage(image: ImageInput, messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) {
+      const formattedMessages = formatChat(messages, systemPrompt)
+
+      // Attach the image to the first user message
+      const first = formattedMessages.find((msg) => msg.role === "user")
+      if (first) {
+        first.images = [image.data]
+      }
+
+      return complete(formattedMessages, options)
+    },
+
+    async *streamChat(messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) {
+      const body = await postStream(
+        `${baseUrl}/api/chat`,
+        { model: config.model, messages: formatChat(messages, systemPrompt), stream: true },
+        {},
+        options?.signal,
+      )
+
+      // Ollama streams one JSON object per line
+      for await (const line of readLines(body)) {
+        const chunk = JSON.parse(line) as OllamaChatResponse
+        if (chunk.message?.content) yield chunk.message.content
+        if (chunk.done) break
+      }
+    },
+  }
+}
+
+export const ollamaProvider: ProviderDefinition = {
+  configFromEnv: (env) => ({
+    model: env.AI_MODEL || "llava",
+    baseUrl: env.OLLAMA_BASE_URL,
+  }),
+  // A local server needs no credentials
+  validate: () => null,
+  create: createOllamaProvider,
+}
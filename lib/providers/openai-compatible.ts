@@ -0,0 +1,133 @@
+import { AIServiceError } from "@/lib/errors"
+import { postJson, postStream, readLines, trimBaseUrl } from "./http"
+import type { CallOptions, ChatMessage, ImageInput, ModelProvider, ProviderConfig, ProviderDefinition } from "./types"
+
+type OpenAIContent = string | ({ type: "text"; text: string } | { type: "image_url"; image_url: { url: string } })[]
+
+interface OpenAIChatResponse {
+  choices: { message: { content: string | null }; finish_reason?: string | null }[]
+}
+
+interface OpenAIChatChunk {
+  choices: { delta: { content?: string | null }; finish_reason?: string | null }[]
+}
+
+// OpenAI-style servers report moderation blocks through the finish reason
+function assertNotFiltered(finishReason?: string | null) {
+  if (finishReason === "content_filter") {
+    throw new AIServiceError("safety_blocked", "The response was blocked by the content filter")
+  }
+}
+
+// Provider for any endpoint that speaks the OpenAI chat completions API
+// (OpenAI itself, vLLM, LM Studio, LiteLLM, ...)
+function createOpenAICompatibleProvider(config: ProviderConfig): ModelProvider {
+  const baseUrl = trimBaseUrl(config.baseUrl ?? "https://api.openai.com/v1")
+
+  const headers: Record<string, string> = {}
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`
+  }
+
+  const complete = async (messages: { role: string; content: OpenAIContent }[], options?: CallOptions) => {
+    const data = await postJson<OpenAIChatResponse>(
+      `${baseUrl}/chat/completions`,
+      { model: config.model, messages },
+      headers,
+      options?.signal,
+    )
+
+    assertNotFiltered(data.choices[0]?.finish_reason)
+    return data.choices[0]?.message.content ?? ""
+  }
+
+  // Drop client supplied system messages, the server owns the system prompt
+  const formatChat = (messages: ChatMessage[], systemPrompt?: string) => {
+    const formattedMessages = messages
+      .filter((msg) => msg.role !== "system")
+      .map((msg) => ({ role: msg.role === "user" ? "user" : "assistant", content: msg.content }))
+
+    if (systemPrompt) {
+      formattedMessages.unshift({ role: "system", content: systemPrompt })
+    }
+
+    return formattedMessages
+  }
+
+  return {
+    name: "openai",
+
+    generateText(prompt: string, options?: CallOptions) {
+      return complete([{ role: "user", content: prompt }], options)
+    },
+
+    analyzeImage(image: ImageInput, prompt: string, options?: CallOptions) {
+      return complete(
+        [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+            ],
+          },
+        ],
+        options,
+      )
+    },
+
+    chat(messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) {
+      return complete(formatChat(messages, systemPrompt), options)
+    },
+
+    chatAboutImage(image: ImageInput, messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) {
+      const formattedMessages: { role: string; content: OpenAIContent }[] = formatChat(messages, systemPrompt)
+
+      // Attach the image to the first user message
+      const first = formattedMessages.find((msg) => msg.role === "user")
+      if (first) {
+        first.content = [
+          { type: "text", text: first.content as string },
+          { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+        ]
+      }
+
+      return complete(formattedMessages, options)
+    },
+
+    async *streamChat(messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) {
+      const body = await postStream(
+        `${baseUrl}/chat/completions`,
+        { model: config.model, messages: formatChat(messages, systemPrompt), stream: true },
+        headers,
+        options?.signal,
+      )
+
+      // Server-sent events: "data: {json}" lines terminated by "data: [DONE]"
+      for await (const line of readLines(body)) {
+        if (!line.startsWith("data:")) continue
+
+        const payload = line.slice("data:".length).trim()
+        if (payload === "[DONE]") break
+
+        const chunk = JSON.parse(payload) as OpenAIChatChunk
+        assertNotFiltered(chunk.choices[0]?.finish_reason)
+
+        const text = chunk.choices[0]?.delta.content
+        if (text) yield text
+      }
+    },
+  }
+}
+
+export const openAICompatibleProvider: ProviderDefinition = {
+  configFromEnv: (env) => ({
+    model: env.AI_MODEL || "gpt-4o-mini",
+    apiKey: env.OPENAI_API_KEY,
+    baseUrl: env.OPENAI_BASE_URL,
+  }),
+  // Self-hosted servers often run without a key, so only require one for the public API
+  validate: (config) =>
+    config.apiKey || config.baseUrl ? null : "OPENAI_API_KEY or OPENAI_BASE_URL environment variable is not set",
+  create: createOpenAICompatibleProvider,
+}
@@ -0,0 +1,51 @@
+// Shared types for the model provider layer
+
+export interface ChatMessage {
+  role: string
+  content: string
+}
+
+export interface ImageInput {
+  // Base64 encoded image data without the data URL prefix
+  data: string
+  mimeType: string
+}
+
+// Settings a provider needs to talk to its backend
+export interface ProviderConfig {
+  model: string
+  apiKey?: string
+  baseUrl?: string
+}
+
+// Per-call options, set by the call policy in lib/call-policy.ts
+export interface CallOptions {
+  // Aborted when the call runs past its deadline
+  signal?: AbortSignal
+}
+
+// Every backend (Gemini, OpenAI-compatible, Ollama, ...) implements this interface
+export interface ModelProvider {
+  name: string
+  generateText: (prompt: string, options?: CallOptions) => Promise<string>
+  analyzeImage: (image: ImageInput, prompt: string, options?: CallOptions) => Promise<string>
+  // Multi-turn conversation about one image, which is attached to the first user message
+  chatAboutImage: (
+    image: ImageInput,
+    messages: ChatMessage[],
+    systemPrompt?: string,
+    options?: CallOptions,
+  ) => Promise<string>
+  chat: (messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) => Promise<string>
+  // Yields the reply in text chunks as the model generates it
+  streamChat: (messages: ChatMessage[], systemPrompt?: string, options?: CallOptions) => AsyncIterable<string>
+}
+
+// Providers with extra settings (e.g. the mock provider) extend ProviderConfig
+export interface ProviderDefinition<TConfig extends ProviderConfig = ProviderConfig> {
+  // Reads the provider settings from environment variables
+  configFromEnv: (env: NodeJS.ProcessEnv) => TConfig
+  // Returns a description of what is missing, or null when the provider is usable
+  validate: (config: TConfig) => string | null
+  create: (config: TConfig) => ModelProvider
+}
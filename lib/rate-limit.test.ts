@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { SESSION_HEADER } from "@/lib/client-session"
+import { checkRateLimit, createMemoryStore, getClientKey, setRateLimitStore } from "@/lib/rate-limit"
+
+function request(headers: Record<string, string>) {
+  return new Request("http://localhost/api/chat", { method: "POST", headers })
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+  vi.unstubAllEnvs()
+})
+
+describe("getClientKey", () => {
+  it("ignores forwarded addresses unless a proxy is trusted", () => {
+    const headers = { "x-forwarded-for": "203.0.113.7", [SESSION_HEADER]: "abc" }
+    expect(getClientKey(request(headers))).toBe("session:abc")
+    expect(getClientKey(request({ "x-forwarded-for": "203.0.113.7" }))).toBe("session:none")
+  })
+
+  it("uses the address the trusted proxy saw, not the ones the client sent before it", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "1")
+    expect(getClientKey(request({ "x-forwarded-for": "198.51.100.1, 203.0.113.7" }))).toBe("ip:203.0.113.7")
+    expect(getClientKey(request({ "x-real-ip": "203.0.113.8" }))).toBe("ip:203.0.113.8")
+
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2")
+    expect(getClientKey(request({ "x-forwarded-for": "198.51.100.1, 203.0.113.7, 10.0.0.1" }))).toBe("ip:203.0.113.7")
+  })
+
+  it("ignores the session id behind a trusted proxy", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "1")
+    const key = getClientKey(request({ "x-forwarded-for": "203.0.113.7", [SESSION_HEADER]: "abc" }))
+    expect(key).toBe("ip:203.0.113.7")
+  })
+})
+
+describe("createMemoryStore", () => {
+  it("counts per key and starts again after the window", async () => {
+    vi.useFakeTimers()
+    const store = createMemoryStore()
+
+    expect((await store.increment("a", 1000)).count).toBe(1)
+    expect((await store.increment("a", 1000)).count).toBe(2)
+    expect((await store.increment("b", 1000)).count).toBe(1)
+
+    vi.advanceTimersByTime(1000)
+    expect((await store.increment("a", 1000)).count).toBe(1)
+  })
+})
+
+describe("checkRateLimit", () => {
+  it("limits a client behind a trusted proxy that sends a new session id with every request", async () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "1")
+    setRateLimitStore(createMemoryStore())
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    const responses = []
+    for (let i = 0; i < 21; i++) {
+      const headers = { "x-forwarded-for": "203.0.113.7", [SESSION_HEADER]: `session-${i}` }
+      responses.push(await checkRateLimit(request(headers), "chat"))
+    }
+
+    expect(responses.slice(0, 20).every((response) => response === null)).toBe(true)
+    expect(responses[20]?.status).toBe(429)
+    expect(responses[20]?.headers.get("Retry-After")).toBeTruthy()
+  })
+
+  it("counts product lookups apart from the model routes", async () => {
+    setRateLimitStore(createMemoryStore())
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    const headers = { [SESSION_HEADER]: "abc" }
+    for (let i = 0; i < 20; i++) await checkRateLimit(request(headers), "chat")
+    expect(await checkRateLimit(request(headers), "product")).toBeNull()
+
+    for (let i = 1; i < 60; i++) await checkRateLimit(request(headers), "product")
+    expect((await checkRateLimit(request(headers), "product"))?.status).toBe(429)
+  })
+})
@@ -0,0 +1,117 @@
+// Mark this file as server-only to prevent it from being bundled with client code
+import "server-only"
+
+import { errorResponse } from "@/lib/api-errors"
+import { SESSION_HEADER } from "@/lib/client-session"
+
+// Per-client rate limiting for the routes that call the paid model or the product catalog.
+// Requests are counted in fixed windows per client and route. The counts live in a
+// RateLimitStore, in memory by default; call setRateLimitStore to share them between
+// server instances (for example with a Redis store built on INCR and PEXPIRE).
+export interface RateLimitStore {
+  // Counts one request for the key and returns the count so far in the current window and when it ends
+  increment: (key: string, windowMs: number) => Promise<{ count: number; resetAt: number }>
+}
+
+export interface RateLimit {
+  // Requests allowed per window
+  limit: number
+  windowMs: number
+}
+
+export type RateLimitedRoute = "chat" | "analyze-image" | "image-chat" | "read-document" | "product"
+
+// Limits can be changed with RATE_LIMIT_CHAT_PER_MINUTE, RATE_LIMIT_IMAGE_PER_MINUTE and
+// RATE_LIMIT_PRODUCT_PER_MINUTE (0 turns them off)
+function limitFromEnv(value: string | undefined, fallback: number): RateLimit {
+  const perMinute = value === undefined || value === "" ? fallback : Number(value)
+  return { limit: Number.isFinite(perMinute) ? perMinute : fallback, windowMs: 60_000 }
+}
+
+const RATE_LIMITS: Record<RateLimitedRoute, RateLimit> = {
+  chat: limitFromEnv(process.env.RATE_LIMIT_CHAT_PER_MINUTE, 20),
+  "analyze-image": limitFromEnv(process.env.RATE_LIMIT_IMAGE_PER_MINUTE, 30),
+  "image-chat": limitFromEnv(process.env.RATE_LIMIT_IMAGE_PER_MINUTE, 30),
+  "read-document": limitFromEnv(process.env.RATE_LIMIT_IMAGE_PER_MINUTE, 30),
+  // Lookups are cheap, but an open endpoint would let anyone walk the catalog
+  product: limitFromEnv(process.env.RATE_LIMIT_PRODUCT_PER_MINUTE, 60),
+}
+
+// Default store, counts are per process and lost on restart
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  return {
+    async increment(key: string, windowMs: number) {
+      const now = Date.now()
+
+      // Forget finished windows now and then so idle clients do not pile up
+      if (windows.size > 10_000) {
+        for (const [staleKey, window] of windows) {
+          if (window.resetAt <= now) windows.delete(staleKey)
+        }
+      }
+
+      let window = windows.get(key)
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs }
+        windows.set(key, window)
+      }
+
+      window.count += 1
+      return { ...window }
+    },
+  }
+}
+
+let store: RateLimitStore = createMemoryStore()
+
+// Replace the store, for example with one shared by all server instances
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next
+}
+
+// Number of proxies in front of the app that append the client address to X-Forwarded-For, from
+// TRUSTED_PROXY_HOPS. Without one the header comes straight from the client, which can set it to anything.
+function trustedProxyHops() {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 0)
+  return Number.isInteger(hops) && hops > 0 ? hops : 0
+}
+
+// Identifies the client. Behind trusted proxies that is the address the outermost one saw, the entries
+// before it were sent by the client and are ignored. Otherwise the route cannot see the connection's
+// address, so requests are counted per browser session: the id the pages send with every request.
+export function getClientKey(request: Request) {
+  const hops = trustedProxyHops()
+  if (hops > 0) {
+    const forwardedFor = (request.headers.get("x-forwarded-for") ?? "")
+      .split(",")
+      .map((address) => address.trim())
+      .filter(Boolean)
+    const address = forwardedFor.at(-hops) ?? forwardedFor[0] ?? request.headers.get("x-real-ip")
+    if (address) return `ip:${address}`
+  }
+
+  const sessionId = request.headers.get(SESSION_HEADER)?.trim().slice(0, 64)
+  return sessionId ? `session:${sessionId}` : "session:none"
+}
+
+// Counts the request and returns the 429 response to send when the client is over its limit, or null
+export async function checkRateLimit(request: Request, route: RateLimitedRoute) {
+  const { limit, windowMs } = RATE_LIMITS[route]
+  if (limit <= 0) return null
+
+  const key = getClientKey(request)
+  const { count, resetAt } = await store.increment(`${route}:${key}`, windowMs)
+  if (count <= limit) return null
+
+  const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+  console.warn(`Rate limit exceeded on ${route} for ${key}, retry in ${retryAfterSeconds}s`)
+
+  return errorResponse(
+    "rate_limited",
+    "Too many requests",
+    `Too many requests, please wait ${retryAfterSeconds} seconds`,
+    { "Retry-After": String(retryAfterSeconds) },
+  )
+}
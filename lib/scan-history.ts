@@ -0,0 +1,69 @@
+import { addRecord, deleteRecord, getAllRecords, putRecord, type StoredRecord } from "@/lib/idb"
+
+// Analyzed pictures kept on the device, so results survive the next capture and can be asked about again
+export interface ScanSnapshot {
+  // The frame that was analyzed, sent again when the user asks a new question about it
+  image: Blob
+  // Small copy for the history list
+  thumbnail: Blob
+  prompt: string
+  description: string
+  capturedAt: number
+  // Starred snapshots are never pruned
+  starred: boolean
+}
+
+export type SavedSnapshot = StoredRecord<ScanSnapshot>
+
+const STORE = "scan-history"
+
+// Oldest unstarred snapshots are dropped beyond this
+const MAX_SNAPSHOTS = 50
+const THUMBNAIL_WIDTH = 160
+
+// Scales an encoded frame down to a JPEG thumbnail
+export async function createThumbnail(image: Blob) {
+  const bitmap = await createImageBitmap(image)
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.min(THUMBNAIL_WIDTH, bitmap.width)
+  canvas.height = Math.max(1, Math.round((bitmap.height / bitmap.width) * canvas.width))
+
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Canvas is not supported")
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the thumbnail"))),
+      "image/jpeg",
+      0.7,
+    )
+  })
+}
+
+// Saves a new snapshot and returns it with its id
+export async function saveSnapshot(snapshot: Omit<ScanSnapshot, "thumbnail" | "starred">): Promise<SavedSnapshot> {
+  const saved: ScanSnapshot = { ...snapshot, thumbnail: await createThumbnail(snapshot.image), starred: false }
+  const id = await addRecord(STORE, saved)
+
+  const unstarred = (await getAllRecords<ScanSnapshot>(STORE)).filter((record) => !record.starred)
+  for (const stale of unstarred.slice(0, Math.max(0, unstarred.length - MAX_SNAPSHOTS))) {
+    await deleteRecord(STORE, stale.id)
+  }
+
+  return { ...saved, id }
+}
+
+// Newest first
+export async function getSnapshots() {
+  return (await getAllRecords<ScanSnapshot>(STORE)).reverse()
+}
+
+export function updateSnapshot(snapshot: SavedSnapshot) {
+  return putRecord(STORE, snapshot)
+}
+
+export function deleteSnapshot(id: number) {
+  return deleteRecord(STORE, id)
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import {
+  chatRequestSchema,
+  fitHistoryMessage,
+  MAX_HISTORY_MESSAGE_LENGTH,
+  MAX_MESSAGE_LENGTH,
+  type ChatMessage,
+} from "@/lib/schemas"
+
+const question: ChatMessage = { role: "user", content: "And after that?" }
+
+describe("chatRequestSchema", () => {
+  it("accepts a long assistant reply in the history", () => {
+    const reply: ChatMessage = { role: "assistant", content: "a".repeat(MAX_MESSAGE_LENGTH * 2) }
+    expect(chatRequestSchema.safeParse({ messages: [question, reply, question] }).success).toBe(true)
+  })
+
+  it("rejects a user message over the limit", () => {
+    const long: ChatMessage = { role: "user", content: "a".repeat(MAX_MESSAGE_LENGTH + 1) }
+    const result = chatRequestSchema.safeParse({ messages: [long] })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].message).toBe(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`)
+  })
+
+  it("requires the conversation to end with a user message", () => {
+    const reply: ChatMessage = { role: "assistant", content: "Hello" }
+    expect(chatRequestSchema.safeParse({ messages: [question, reply] }).success).toBe(false)
+  })
+})
+
+describe("fitHistoryMessage", () => {
+  it("cuts replies over the history limit so the request stays valid", () => {
+    const reply = fitHistoryMessage({ role: "assistant", content: "a".repeat(MAX_HISTORY_MESSAGE_LENGTH + 500) })
+    expect(reply.content).toHaveLength(MAX_HISTORY_MESSAGE_LENGTH)
+    expect(chatRequestSchema.safeParse({ messages: [reply, question] }).success).toBe(true)
+  })
+
+  it("leaves the user's messages and short replies alone", () => {
+    const long = { role: "user", content: "a".repeat(MAX_HISTORY_MESSAGE_LENGTH + 1) }
+    expect(fitHistoryMessage(long)).toBe(long)
+    expect(fitHistoryMessage(question)).toBe(question)
+  })
+})
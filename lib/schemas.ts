@@ -0,0 +1,272 @@
+import { z } from "zod"
+
+// Request and response schemas for the API routes, enforced on the server and reused by the pages
+
+export const MAX_MESSAGE_LENGTH = 4000
+// Earlier replies and picture descriptions in the history can be longer than what the user may type
+export const MAX_HISTORY_MESSAGE_LENGTH = 16000
+export const MAX_CHAT_MESSAGES = 50
+export const MAX_PROMPT_LENGTH = 1000
+// Limit on the decoded image size
+export const MAX_IMAGE_BYTES = 4 * 1024 * 1024
+
+// The server detects the real type from the file contents and converts everything to JPEG
+export const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/heic"] as const
+
+export type SupportedImageType = (typeof SUPPORTED_IMAGE_TYPES)[number]
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/
+
+// Size in bytes of the data a base64 string decodes to
+export function base64DecodedSize(base64: string) {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0
+  return Math.floor((base64.length * 3) / 4) - padding
+}
+
+// The user's own messages are held to MAX_MESSAGE_LENGTH, the rest of the history to MAX_HISTORY_MESSAGE_LENGTH
+export const chatMessageSchema = z
+  .object({
+    role: z.enum(["user", "assistant", "system"]),
+    content: z
+      .string()
+      .max(MAX_HISTORY_MESSAGE_LENGTH, `History messages can be at most ${MAX_HISTORY_MESSAGE_LENGTH} characters`),
+  })
+  .refine((message) => message.role !== "user" || message.content.length <= MAX_MESSAGE_LENGTH, {
+    message: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`,
+    path: ["content"],
+  })
+
+// Cuts an earlier reply or description to MAX_HISTORY_MESSAGE_LENGTH, keeping its beginning, before it is sent again
+export function fitHistoryMessage<T extends { role: string; content: string }>(message: T): T {
+  if (message.role === "user" || message.content.length <= MAX_HISTORY_MESSAGE_LENGTH) return message
+  return { ...message, content: `${message.content.slice(0, MAX_HISTORY_MESSAGE_LENGTH - 1)}…` }
+}
+
+const chatMessagesSchema = z
+  .array(chatMessageSchema)
+  .min(1, "At least one message is required")
+  .max(MAX_CHAT_MESSAGES, `At most ${MAX_CHAT_MESSAGES} messages can be sent`)
+  .refine((messages) => {
+    const last = messages[messages.length - 1]
+    return last?.role === "user" && last.content.trim().length > 0
+  }, "The last message must be a non-empty user message")
+
+export const chatRequestSchema = z.object({
+  messages: chatMessagesSchema,
+  stream: z.boolean().optional(),
+})
+
+export const promptSchema = z
+  .string()
+  .trim()
+  .min(1, "The prompt cannot be empty")
+  .max(MAX_PROMPT_LENGTH, `The prompt can be at most ${MAX_PROMPT_LENGTH} characters`)
+
+// "describe" answers in prose, the other modes ask the model for a structured report
+export const ANALYSIS_MODES = ["describe", "hazard", "currency", "color", "medication", "search"] as const
+
+export type AnalysisMode = (typeof ANALYSIS_MODES)[number]
+
+const analysisModeSchema = z.enum(ANALYSIS_MODES).default("describe")
+
+// Multipart fields are strings, so structured fields arrive as JSON text
+function parseJsonField(value: unknown) {
+  if (typeof value !== "string") return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+// The image of a JSON upload, next to the fields of the endpoint
+export const base64ImageFieldsSchema = z.object({
+  // Base64 image data without the data URL prefix
+  image: z
+    .string()
+    .min(1, "Image data is required")
+    .regex(BASE64_PATTERN, "Image data must be base64 encoded")
+    .refine(
+      (image) => base64DecodedSize(image) <= MAX_IMAGE_BYTES,
+      `Images can be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`,
+    ),
+  // Optional hint only, the server sniffs the type from the image bytes
+  mimeType: z.enum(SUPPORTED_IMAGE_TYPES).optional(),
+})
+
+// Text fields sent next to a binary image, as multipart form fields or in the query string of a raw upload
+export const imageUploadFieldsSchema = z.object({
+  prompt: promptSchema.optional(),
+  mode: analysisModeSchema,
+  // Search mode: the object to find, such as "keys" or "the door"
+  target: z.string().trim().min(1, "The search target cannot be empty").max(100).optional(),
+  // Color mode: dominant colors of the center of the frame measured on the device, as "#rrggbb"
+  measuredColors: z
+    .preprocess(
+      parseJsonField,
+      z.array(z.string().regex(/^#[0-9a-f]{6}$/i, "Measured colors must look like #rrggbb")).max(3),
+    )
+    .optional(),
+})
+
+export const analyzeImageRequestSchema = imageUploadFieldsSchema.merge(base64ImageFieldsSchema)
+
+// Follow-up questions about the last analyzed image (see /api/image-chat).
+// The conversation starts with the original prompt and description, and ends with the new question.
+export const imageChatFieldsSchema = z.object({
+  messages: z.preprocess(parseJsonField, chatMessagesSchema),
+})
+
+// One hazard in the structured reply of hazard mode
+export const hazardSchema = z.object({
+  // Short name such as "stairs down" or "open door"
+  type: z.string().trim().min(1).max(60),
+  // Direction as a clock position, 12 is straight ahead
+  clock: z.number().int().min(1).max(12),
+  // very_close is under 1 meter, close is 1 to 3 meters, far is beyond
+  distance: z.enum(["very_close", "close", "far"]),
+  urgency: z.enum(["high", "medium", "low"]),
+})
+
+// What the model must return in hazard mode, checked on the server before it reaches the page
+export const hazardReportSchema = z.object({
+  hazards: z.array(hazardSchema).max(5),
+  // One or two sentences about the rest of the scene
+  summary: z.string(),
+})
+
+// One banknote in the structured reply of currency mode
+export const currencyNoteSchema = z.object({
+  // ISO 4217 code such as "USD" or "EUR"
+  currency: z.string().regex(/^[A-Z]{3}$/),
+  denomination: z.number().positive(),
+  // How sure the model is, from 0 to 1. Uncertain notes are never announced as a value.
+  confidence: z.number().min(0).max(1),
+})
+
+// What the model must return in currency mode
+export const currencyReportSchema = z.object({
+  notes: z.array(currencyNoteSchema).max(20),
+})
+
+// What the model must return in color mode
+export const colorReportSchema = z.object({
+  // The main item in the center of the picture, such as "shirt"
+  item: z.string().trim().min(1).max(60),
+  // Its colors, main color first, such as "navy blue"
+  colors: z.array(z.string().trim().min(1).max(40)).max(3),
+  // Such as "striped" or "floral", null for plain items
+  pattern: z.string().trim().max(60).nullish(),
+})
+
+// What the model must return in medication mode. Anything it cannot read with certainty is null, never guessed.
+export const medicationLabelSchema = z.object({
+  // False when the name or strength cannot be read with certainty, for example on a blurred or turned label
+  legible: z.boolean(),
+  // Such as "Amlodipine"
+  name: z.string().trim().min(1).max(100).nullish(),
+  // Such as "5 mg"
+  strength: z.string().trim().max(60).nullish(),
+  // The directions as printed, such as "Take one tablet by mouth once daily"
+  dosage: z.string().trim().max(300).nullish(),
+  // The expiry date as "YYYY-MM", or "YYYY-MM-DD" when the day is printed
+  expiry: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])(-\d{2})?$/)
+    .nullish(),
+  // Warnings printed on the label, such as "May cause drowsiness"
+  warnings: z.array(z.string().trim().min(1).max(200)).max(10),
+})
+
+// What the model must return in search mode, for the object the user is looking for
+export const objectLocationSchema = z.object({
+  found: z.boolean(),
+  // Where it is across the picture, null when it was not found
+  position: z.enum(["left", "center", "right"]).nullish(),
+  // near is within arm's reach
+  distance: z.enum(["near", "far"]).nullish(),
+})
+
+// One block of text in a document page, in reading order
+export const documentBlockSchema = z.object({
+  kind: z.enum(["heading", "paragraph", "list_item"]),
+  text: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH),
+})
+
+// What the model must return in document mode, checked on the server before it reaches the page
+export const documentPageSchema = z.object({
+  blocks: z.array(documentBlockSchema).max(300),
+  // True when text runs off the edge of the picture
+  cutOff: z.boolean(),
+})
+
+// Document mode takes only the image
+export const documentFieldsSchema = z.object({})
+
+// Product mode: barcodes are decoded on the device and only the product number is sent (see /api/product)
+export const productLookupRequestSchema = z.object({
+  code: z.string().regex(/^(\d{8}|\d{12,14})$/, "Product barcodes have 8, 12, 13 or 14 digits"),
+})
+
+// One product in the catalog (see lib/catalog)
+export const productSchema = z.object({
+  code: z.string(),
+  name: z.string().min(1),
+  brand: z.string().nullish(),
+  // Such as "500 g" or "1 l"
+  size: z.string().nullish(),
+  allergens: z.array(z.string()).default([]),
+  // Allergens the product may contain traces of
+  traces: z.array(z.string()).default([]),
+})
+
+// Null when the catalog does not know the product
+export const productLookupResponseSchema = z.object({
+  product: productSchema.nullable(),
+})
+
+export const chatResponseSchema = z.object({
+  response: z.string(),
+})
+
+export const analyzeImageResponseSchema = z.object({
+  analysis: z.string(),
+  // Only in hazard mode
+  hazards: z.array(hazardSchema).optional(),
+  // Only in currency mode
+  notes: z.array(currencyNoteSchema).optional(),
+  // Only in color mode
+  color: colorReportSchema.optional(),
+  // Only in medication mode
+  medication: medicationLabelSchema.optional(),
+  // Only in search mode
+  location: objectLocationSchema.optional(),
+})
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  code: z.string(),
+  message: z.string().optional(),
+  // Validation failures list the problems per request field
+  fieldErrors: z.record(z.array(z.string())).optional(),
+})
+
+export type ChatMessage = z.infer<typeof chatMessageSchema>
+export type ChatRequest = z.infer<typeof chatRequestSchema>
+export type ChatResponse = z.infer<typeof chatResponseSchema>
+export type AnalyzeImageRequest = z.input<typeof analyzeImageRequestSchema>
+export type AnalyzeImageResponse = z.infer<typeof analyzeImageResponseSchema>
+export type ImageUploadFields = z.input<typeof imageUploadFieldsSchema>
+export type ImageChatFields = z.input<typeof imageChatFieldsSchema>
+export type Hazard = z.infer<typeof hazardSchema>
+export type HazardReport = z.infer<typeof hazardReportSchema>
+export type CurrencyNote = z.infer<typeof currencyNoteSchema>
+export type CurrencyReport = z.infer<typeof currencyReportSchema>
+export type ColorReport = z.infer<typeof colorReportSchema>
+export type MedicationLabel = z.infer<typeof medicationLabelSchema>
+export type ObjectLocation = z.infer<typeof objectLocationSchema>
+export type DocumentBlock = z.infer<typeof documentBlockSchema>
+export type DocumentPage = z.infer<typeof documentPageSchema>
+export type Product = z.infer<typeof productSchema>
+export type ProductLookupResponse = z.infer<typeof productLookupResponseSchema>
+export type ErrorResponse = z.infer<typeof errorResponseSchema>
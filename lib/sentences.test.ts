@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import { takeCompleteSentences } from "@/lib/sentences"
+
+describe("takeCompleteSentences", () => {
+  it("returns complete sentences and keeps the unfinished rest", () => {
+    expect(takeCompleteSentences("Hello there. How are")).toEqual({ sentences: ["Hello there."], rest: "How are" })
+  })
+
+  it("waits for whitespace after the terminator", () => {
+    expect(takeCompleteSentences("It costs 3.50 dollars.")).toEqual({ sentences: [], rest: "It costs 3.50 dollars." })
+  })
+
+  it("keeps closing quotes and brackets with their sentence", () => {
+    expect(takeCompleteSentences('He said "stop!" Then (he left.) Next').sentences).toEqual([
+      'He said "stop!"',
+      "Then (he left.)",
+    ])
+  })
+
+  it("splits at line breaks", () => {
+    expect(takeCompleteSentences("- milk\n- eggs\n")).toEqual({ sentences: ["- milk", "- eggs"], rest: "" })
+  })
+
+  it("returns everything as rest when no sentence is complete", () => {
+    expect(takeCompleteSentences("Almost")).toEqual({ sentences: [], rest: "Almost" })
+  })
+})
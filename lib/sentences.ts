@@ -0,0 +1,18 @@
+// A sentence is complete once its terminator is followed by whitespace, or at a line break
+const SENTENCE_END = /[.!?]+["')\]]*\s+|\n+/g
+
+// Splits the completed sentences off the front of a growing text buffer.
+// Whatever follows the last complete sentence is returned as `rest`.
+export function takeCompleteSentences(buffer: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = []
+  let lastEnd = 0
+
+  for (const match of buffer.matchAll(SENTENCE_END)) {
+    const end = (match.index ?? 0) + match[0].length
+    const sentence = buffer.slice(lastEnd, end).trim()
+    if (sentence) sentences.push(sentence)
+    lastEnd = end
+  }
+
+  return { sentences, rest: buffer.slice(lastEnd) }
+}
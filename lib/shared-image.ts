@@ -0,0 +1,26 @@
+// Client side of the Web Share Target: the service worker in public/share-target-sw.js parks shared photos
+// in Cache Storage under these names, and the scan page takes them from there.
+const SHARE_CACHE = "vission-share-target"
+const SHARED_IMAGE_KEY = "/scan/shared-image"
+
+// Installs the worker that receives shared photos. Browsers without service workers simply cannot share to us.
+export async function registerShareTarget() {
+  if (!("serviceWorker" in navigator)) return
+  try {
+    await navigator.serviceWorker.register("/share-target-sw.js")
+  } catch (error) {
+    console.error("Error registering the share target:", error)
+  }
+}
+
+// Returns the photo shared to the app, once
+export async function takeSharedImage() {
+  if (!("caches" in window)) return null
+
+  const cache = await caches.open(SHARE_CACHE)
+  const response = await cache.match(SHARED_IMAGE_KEY)
+  if (!response) return null
+
+  await cache.delete(SHARED_IMAGE_KEY)
+  return response.blob()
+}
@@ -0,0 +1,27 @@
+// Local usage counters, kept in localStorage and never sent anywhere
+const STORAGE_KEY = "vission-telemetry"
+
+export type TelemetryCounter = "unchanged-frames-skipped" | "frames-analyzed"
+
+function readCounters(): Partial<Record<TelemetryCounter, number>> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}")
+  } catch {
+    return {}
+  }
+}
+
+export function incrementCounter(name: TelemetryCounter) {
+  const counters = readCounters()
+  counters[name] = (counters[name] ?? 0) + 1
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(counters))
+  } catch {
+    // Storage full or unavailable, the counters are only informational
+  }
+  return counters[name]
+}
+
+export function getCounter(name: TelemetryCounter) {
+  return readCounters()[name] ?? 0
+}
@@ -0,0 +1,29 @@
+// Receives photos shared to the installed app (see the share_target in app/manifest.ts).
+// The photo is parked in Cache Storage and the scan page picks it up, see lib/shared-image.ts.
+const SHARE_CACHE = "vission-share-target"
+const SHARED_IMAGE_KEY = "/scan/shared-image"
+
+self.addEventListener("install", () => self.skipWaiting())
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()))
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url)
+  if (event.request.method !== "POST" || url.pathname !== "/scan/share") return
+
+  event.respondWith(
+    (async () => {
+      try {
+        const formData = await event.request.formData()
+        const image = formData.get("image")
+        if (image instanceof File) {
+          const cache = await caches.open(SHARE_CACHE)
+          await cache.put(SHARED_IMAGE_KEY, new Response(image, { headers: { "Content-Type": image.type } }))
+          return Response.redirect("/scan?shared=1", 303)
+        }
+      } catch (error) {
+        console.error("Error receiving shared image:", error)
+      }
+      return Response.redirect("/scan?shared=failed", 303)
+    })(),
+  )
+})